@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import { configSection } from './runnerConfig';
+import { getProjectRoot } from './testTree';
+
+type StartRun = (request: vscode.TestRunRequest, token: vscode.CancellationToken) => Promise<void>;
+
+/**
+ * Reruns affected tests whenever a class file is saved, until the continuous
+ * run is cancelled. Saving a test class reruns its tests; saving any other class
+ * reruns the test classes that use it through `cs.<ClassName>`.
+ */
+export async function runContinuously(
+    controller: vscode.TestController,
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken,
+    startRun: StartRun
+) {
+    const debounceMs = vscode.workspace.getConfiguration(configSection).get<number>('continuousRun.debounce', 500);
+
+    const pending = new Set<vscode.TestItem>();
+    let timer: NodeJS.Timeout | undefined;
+    let running = false;
+
+    // Runs one batch at a time so tool4d processes never overlap; saves made
+    // during a run are picked up by the next batch
+    const flush = async () => {
+        if (running) {
+            return;
+        }
+        running = true;
+        try {
+            while (pending.size > 0 && !token.isCancellationRequested) {
+                const include = Array.from(pending);
+                pending.clear();
+                await startRun(new vscode.TestRunRequest(include, request.exclude, request.profile, true), token);
+            }
+        } finally {
+            running = false;
+        }
+    };
+
+    const saveListener = vscode.workspace.onDidSaveTextDocument(async document => {
+        const affected = await findAffectedItems(controller, document);
+        const inScope = affected.flatMap(fileItem => limitToRequest(fileItem, request));
+        if (inScope.length === 0) {
+            return;
+        }
+
+        inScope.forEach(item => pending.add(item));
+        clearTimeout(timer);
+        timer = setTimeout(flush, debounceMs);
+    });
+
+    await new Promise<void>(resolve => {
+        if (token.isCancellationRequested) {
+            resolve();
+            return;
+        }
+        const cancellation = token.onCancellationRequested(() => {
+            cancellation.dispose();
+            resolve();
+        });
+    });
+
+    saveListener.dispose();
+    clearTimeout(timer);
+}
+
+// Test file items affected by a saved document
+async function findAffectedItems(
+    controller: vscode.TestController,
+    document: vscode.TextDocument
+): Promise<vscode.TestItem[]> {
+    const projectRoot = getProjectRoot(document.uri);
+    if (!projectRoot || !document.uri.path.endsWith('.4dm')) {
+        return [];
+    }
+
+    const projectItem = controller.items.get(projectRoot.toString());
+    if (!projectItem) {
+        return [];
+    }
+
+    const ownItem = projectItem.children.get(document.uri.fsPath);
+    if (ownItem) {
+        return [ownItem];
+    }
+
+    const className = document.uri.path.split('/').pop()!.replace(/\.4dm$/, '');
+    const reference = new RegExp(`\\bcs\\.${className.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`);
+
+    const fileItems: vscode.TestItem[] = [];
+    projectItem.children.forEach(fileItem => fileItems.push(fileItem));
+
+    const affected: vscode.TestItem[] = [];
+    for (const fileItem of fileItems) {
+        try {
+            const rawContent = await vscode.workspace.fs.readFile(fileItem.uri!);
+            if (reference.test(new TextDecoder().decode(rawContent))) {
+                affected.push(fileItem);
+            }
+        } catch {
+            // File deleted since discovery
+        }
+    }
+    return affected;
+}
+
+// Narrows a test file to what the continuous run was started for
+function limitToRequest(fileItem: vscode.TestItem, request: vscode.TestRunRequest): vscode.TestItem[] {
+    if (!request.include) {
+        return [fileItem];
+    }
+
+    const isAncestorOf = (ancestor: vscode.TestItem, item: vscode.TestItem | undefined) => {
+        for (; item; item = item.parent) {
+            if (item.id === ancestor.id) {
+                return true;
+            }
+        }
+        return false;
+    };
+
+    if (request.include.some(item => isAncestorOf(item, fileItem))) {
+        return [fileItem];
+    }
+    return request.include.filter(item => isAncestorOf(fileItem, item));
+}
@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import { ClassModel, findClassFunction, mapLogicalLine, parseClassFile } from './parser';
+import { CoverageEntry } from './resultStream';
+import { classFileUri, methodFileUri } from './sourceLocation';
+
+// Statement details of each reported file, handed out by loadDetailedCoverage
+const detailedCoverage = new WeakMap<vscode.FileCoverage, vscode.StatementCoverage[]>();
+
+interface FileHits {
+    uri: vscode.Uri;
+    lines: string[];
+    model: ClassModel;
+    // Hit count per logical line, keyed by its first source line
+    hits: Map<number, { count: number; range: vscode.Range }>;
+}
+
+/**
+ * Collects the coverage reported by every runner of a test run and publishes
+ * it to the run once all runners have finished.
+ */
+export class CoverageCollector {
+    // Shards report at the same time, so the pending read is shared rather than repeated
+    private readonly files = new Map<string, Promise<FileHits | null>>();
+
+    /**
+     * Maps coverage entries of one 4D project onto source lines.
+     */
+    async add(entries: CoverageEntry[], projectRoot: vscode.Uri) {
+        for (const entry of entries) {
+            const uri = resolveSourceFile(entry, projectRoot);
+            if (!uri) {
+                continue;
+            }
+
+            const file = await this.getFile(uri);
+            if (!file) {
+                continue;
+            }
+
+            // Class functions count from their declaration, project methods from the top
+            let startLine = -1;
+            if (entry.className) {
+                const classFunction = findClassFunction(file.model, entry.functionName!);
+                if (!classFunction) {
+                    continue;
+                }
+                startLine = classFunction.declaration.end.line;
+            }
+
+            for (const [logicalLine, count] of Object.entries(entry.lines)) {
+                const lastLine = mapLogicalLine(file.lines, startLine, Number(logicalLine));
+                if (lastLine === null) {
+                    continue;
+                }
+
+                // A logical line spans every source line joined by a trailing \
+                let firstLine = lastLine;
+                while (firstLine > 0 && file.lines[firstLine - 1].trimEnd().endsWith('\\')) {
+                    firstLine--;
+                }
+
+                const existing = file.hits.get(firstLine);
+                if (existing) {
+                    existing.count += count;
+                } else {
+                    const range = new vscode.Range(firstLine, 0, lastLine, file.lines[lastLine].trimEnd().length);
+                    file.hits.set(firstLine, { count, range });
+                }
+            }
+        }
+    }
+
+    async publish(run: vscode.TestRun) {
+        for (const file of await Promise.all(this.files.values())) {
+            if (!file || file.hits.size === 0) {
+                continue;
+            }
+
+            const details = Array.from(file.hits.values())
+                .sort((a, b) => a.range.start.line - b.range.start.line)
+                .map(hit => new vscode.StatementCoverage(hit.count, hit.range));
+
+            const fileCoverage = vscode.FileCoverage.fromDetails(file.uri, details);
+            detailedCoverage.set(fileCoverage, details);
+            run.addCoverage(fileCoverage);
+        }
+    }
+
+    private getFile(uri: vscode.Uri): Promise<FileHits | null> {
+        const key = uri.toString();
+        if (!this.files.has(key)) {
+            this.files.set(key, Promise.resolve(vscode.workspace.fs.readFile(uri)).then(
+                rawContent => {
+                    const content = new TextDecoder().decode(rawContent);
+                    const model = parseClassFile(content, uri.path.split('/').pop()!.replace(/\.4dm$/, ''));
+                    return { uri, lines: content.split('\n'), model, hits: new Map() };
+                },
+                // Coverage for a file that doesn't exist in this workspace
+                () => null
+            ));
+        }
+        return this.files.get(key)!;
+    }
+}
+
+function resolveSourceFile(entry: CoverageEntry, projectRoot: vscode.Uri): vscode.Uri | undefined {
+    if (entry.className && entry.functionName) {
+        return classFileUri(projectRoot, entry.className);
+    }
+    if (entry.methodName) {
+        return methodFileUri(projectRoot, entry.methodName);
+    }
+    return undefined;
+}
+
+export async function loadDetailedCoverage(
+    _run: vscode.TestRun,
+    fileCoverage: vscode.FileCoverage,
+    _token: vscode.CancellationToken
+): Promise<vscode.FileCoverageDetail[]> {
+    return detailedCoverage.get(fileCoverage) ?? [];
+}
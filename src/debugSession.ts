@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import { mapSourceLineToLogicalLine, parseClassFile } from './parser';
+import { configSection, RunnerPlaceholders } from './runnerConfig';
+
+/**
+ * Enabled breakpoints in a project's class files and project methods, as
+ * "ClassName.functionName:line" or "MethodName:line" with 4D logical lines.
+ */
+export async function collectBreakpoints(projectRoot: vscode.Uri): Promise<string[]> {
+    const sourcesPath = vscode.Uri.joinPath(projectRoot, 'Project', 'Sources').path + '/';
+    const byFile = new Map<string, { uri: vscode.Uri; lines: number[] }>();
+
+    for (const breakpoint of vscode.debug.breakpoints) {
+        if (!(breakpoint instanceof vscode.SourceBreakpoint) || !breakpoint.enabled) {
+            continue;
+        }
+        const uri = breakpoint.location.uri;
+        if (!uri.path.startsWith(sourcesPath) || !uri.path.endsWith('.4dm')) {
+            continue;
+        }
+        const key = uri.toString();
+        if (!byFile.has(key)) {
+            byFile.set(key, { uri, lines: [] });
+        }
+        byFile.get(key)!.lines.push(breakpoint.location.range.start.line);
+    }
+
+    const breakpoints: string[] = [];
+    for (const { uri, lines } of byFile.values()) {
+        let content: string;
+        try {
+            content = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+        } catch {
+            continue;
+        }
+        const sourceLines = content.split('\n');
+        const name = uri.path.split('/').pop()!.replace(/\.4dm$/, '');
+
+        if (uri.path.substring(sourcesPath.length).startsWith('Methods/')) {
+            lines.forEach(line => breakpoints.push(`${name}:${mapSourceLineToLogicalLine(sourceLines, -1, line)}`));
+            continue;
+        }
+
+        const model = parseClassFile(content, name);
+        for (const line of lines) {
+            // Breakpoints on a declaration or outside any function can't be hit
+            const classFunction = model.functions.find(f =>
+                line > f.declaration.end.line && line <= f.range.end.line
+            );
+            if (classFunction) {
+                const logicalLine = mapSourceLineToLogicalLine(sourceLines, classFunction.declaration.end.line, line);
+                breakpoints.push(`${name}.${classFunction.name}:${logicalLine}`);
+            }
+        }
+    }
+    return breakpoints;
+}
+
+/**
+ * Starts the debug session set in `debug.configuration`: the name of a launch
+ * configuration, or a configuration object whose strings may use the runner
+ * placeholders.
+ *
+ * @returns The session, or an explanation of why none was started
+ */
+export async function startDebugSession(
+    folder: vscode.WorkspaceFolder | undefined,
+    placeholders: RunnerPlaceholders,
+    run: vscode.TestRun
+): Promise<vscode.DebugSession | string> {
+    const configuration = vscode.workspace
+        .getConfiguration(configSection, folder?.uri)
+        .get<string | vscode.DebugConfiguration>('debug.configuration');
+    if (!configuration) {
+        return `Set "${configSection}.debug.configuration" to the debug configuration that attaches to tool4d.`;
+    }
+
+    let session: vscode.DebugSession | undefined;
+    const listener = vscode.debug.onDidStartDebugSession(started => {
+        session ??= started;
+    });
+    try {
+        const resolved = typeof configuration === 'string'
+            ? configuration
+            : substitutePlaceholders(configuration, placeholders) as vscode.DebugConfiguration;
+        const started = await vscode.debug.startDebugging(folder, resolved, { testRun: run });
+        return started && session ? session : `Debug configuration "${describeConfiguration(configuration)}" could not be started.`;
+    } finally {
+        listener.dispose();
+    }
+}
+
+function describeConfiguration(configuration: string | vscode.DebugConfiguration): string {
+    return typeof configuration === 'string' ? configuration : configuration.name ?? configuration.type;
+}
+
+// Replaces runner placeholders such as ${tests} and leaves VS Code's own variables alone
+function substitutePlaceholders(value: unknown, placeholders: RunnerPlaceholders): unknown {
+    if (typeof value === 'string') {
+        return value.replace(/\$\{(\w+)\}/g, (match, name: string) =>
+            name in placeholders ? placeholders[name as keyof RunnerPlaceholders] : match
+        );
+    }
+    if (Array.isArray(value)) {
+        return value.map(v => substitutePlaceholders(v, placeholders));
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, v]) => [key, substitutePlaceholders(v, placeholders)])
+        );
+    }
+    return value;
+}
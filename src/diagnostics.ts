@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+
+let collection: vscode.DiagnosticCollection | undefined;
+
+/**
+ * Creates the collection that shows compile and runtime errors from test runs
+ * in the Problems panel.
+ */
+export function registerTestDiagnostics(context: vscode.ExtensionContext) {
+    collection = vscode.languages.createDiagnosticCollection('4d-tests');
+    context.subscriptions.push(collection);
+}
+
+/**
+ * Diagnostics gathered during one test run. Publishing replaces the previous
+ * diagnostics of the projects that were run and leaves other projects alone.
+ */
+export class RunDiagnostics {
+    private readonly diagnostics = new Map<string, { uri: vscode.Uri; items: vscode.Diagnostic[] }>();
+
+    add(location: vscode.Location, message: string, severity: vscode.DiagnosticSeverity) {
+        const key = location.uri.toString();
+        if (!this.diagnostics.has(key)) {
+            this.diagnostics.set(key, { uri: location.uri, items: [] });
+        }
+
+        const diagnostic = new vscode.Diagnostic(location.range, message, severity);
+        diagnostic.source = '4D tests';
+        this.diagnostics.get(key)!.items.push(diagnostic);
+    }
+
+    publish(projectRoots: vscode.Uri[]) {
+        if (!collection) {
+            return;
+        }
+
+        const prefixes = projectRoots.map(root => root.toString().replace(/\/?$/, '/'));
+        const stale: vscode.Uri[] = [];
+        collection.forEach(uri => {
+            if (prefixes.some(prefix => uri.toString().startsWith(prefix))) {
+                stale.push(uri);
+            }
+        });
+        stale.forEach(uri => collection!.delete(uri));
+
+        for (const { uri, items } of this.diagnostics.values()) {
+            collection.set(uri, items);
+        }
+    }
+}
@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+import { TestRunRecord } from './results';
+import { configSection } from './runnerConfig';
+import { HistoryEntry, TestHistory } from './testHistory';
+import { findFileItem, TestHeading, testData } from './testTree';
+
+// Regressions smaller than this are noise, however large the ratio
+const minimumRegressionMs = 100;
+// Runs needed before a test has a baseline to regress from
+const minimumBaselineRuns = 3;
+
+function getDurationSettings() {
+    const config = vscode.workspace.getConfiguration(configSection);
+    return {
+        slowThreshold: config.get<number>('durations.slowThreshold', 1000),
+        regressionFactor: config.get<number>('durations.regressionFactor', 2)
+    };
+}
+
+function timedEntries(entries: HistoryEntry[]): number[] {
+    return entries
+        .filter(e => e.status !== 'skipped' && e.duration !== undefined)
+        .map(e => e.duration!);
+}
+
+function median(values: number[]): number | undefined {
+    if (values.length === 0) {
+        return undefined;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export function formatDuration(ms: number): string {
+    return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+/**
+ * A test is slow when the median of its recorded durations reaches the
+ * `durations.slowThreshold` setting.
+ */
+export function isSlow(history: TestHistory, testId: string): boolean {
+    const { slowThreshold } = getDurationSettings();
+    const medianDuration = median(timedEntries(history.entries(testId)));
+    return slowThreshold > 0 && medianDuration !== undefined && medianDuration >= slowThreshold;
+}
+
+/**
+ * Describes the tests of a run that took `durations.regressionFactor` times
+ * longer than the median of their previous runs.
+ */
+export function findDurationRegressions(history: TestHistory, record: TestRunRecord): string[] {
+    const { regressionFactor } = getDurationSettings();
+    if (regressionFactor <= 1) {
+        return [];
+    }
+
+    const regressions: string[] = [];
+    for (const test of record.tests) {
+        if (test.duration === undefined || test.status === 'skipped') {
+            continue;
+        }
+
+        // The run itself is the most recent entry
+        const previous = timedEntries(history.entries(test.item.id).slice(1));
+        const baseline = median(previous);
+        if (baseline === undefined || previous.length < minimumBaselineRuns) {
+            continue;
+        }
+
+        if (test.duration >= baseline * regressionFactor && test.duration - baseline >= minimumRegressionMs) {
+            regressions.push(
+                `${test.suite}.${test.name} took ${formatDuration(test.duration)}, ` +
+                `${(test.duration / Math.max(baseline, 1)).toFixed(1)}× its usual ${formatDuration(baseline)}`
+            );
+        }
+    }
+    return regressions;
+}
+
+/**
+ * Shows the last and median duration above slow tests.
+ */
+export class DurationCodeLensProvider implements vscode.CodeLensProvider {
+    private readonly changed = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses = this.changed.event;
+
+    constructor(
+        private readonly controller: vscode.TestController,
+        private readonly history: TestHistory
+    ) {}
+
+    refresh() {
+        this.changed.fire();
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const fileItem = findFileItem(this.controller, document.uri);
+        if (!fileItem) {
+            return [];
+        }
+
+        const lenses: vscode.CodeLens[] = [];
+        fileItem.children.forEach(item => {
+            if (!(testData.get(item) instanceof TestHeading) || !item.range || !isSlow(this.history, item.id)) {
+                return;
+            }
+
+            const durations = timedEntries(this.history.entries(item.id));
+            lenses.push(new vscode.CodeLens(item.range.with({ end: item.range.start }), {
+                title: `🐢 last ${formatDuration(durations[0])} · median ${formatDuration(median(durations)!)}`,
+                tooltip: 'Slower than 4d-testing-extension.durations.slowThreshold. Click to show its history.',
+                command: '4d-testing-extension.showHistory',
+                arguments: [item]
+            }));
+        });
+        return lenses;
+    }
+
+    dispose() {
+        this.changed.dispose();
+    }
+}
@@ -1,6 +1,36 @@
 import * as vscode from 'vscode';
-import { startTestRun } from './startTestRun';
-import { updateFromDisk, testData } from './testTree';
+import { runContinuously } from './continuousRun';
+import { loadDetailedCoverage } from './coverage';
+import { registerTestDiagnostics } from './diagnostics';
+import { DurationCodeLensProvider, findDurationRegressions, isSlow } from './durations';
+import { configSection, getRunConfigurations } from './runnerConfig';
+import { onDidFinishTestRun, startTestRun, TestRunOptions } from './startTestRun';
+import { listReplayedTests, ReplayedTests } from './replay';
+import { exportTestReports } from './reports';
+import { TestRunRecord } from './results';
+import { isProductionClassFile, scaffoldTestClass, ScaffoldCodeActionProvider } from './scaffold';
+import { setDurationEstimator } from './sharding';
+import { getEmojiForTag, registerTagAnnotations } from './tagAnnotations';
+import { parseTagExpression, TagPredicate } from './tagExpression';
+import { showTestHistory, TestHistory } from './testHistory';
+import {
+    findFileItem,
+    findTestItems,
+    getOrCreateFileItem,
+    getProjectRoot,
+    LifecycleHook,
+    removeFileItem,
+    setResultTag,
+    TestHeading,
+    testData,
+    updateFromContents,
+    updateFromDisk
+} from './testTree';
+
+interface TagProfileDefinition {
+    name: string;
+    expression: string;
+}
 
 export function activate(context: vscode.ExtensionContext) {
     const controller = vscode.tests.createTestController(
@@ -8,30 +38,10 @@ export function activate(context: vscode.ExtensionContext) {
         '4D Tests'
     );
     context.subscriptions.push(controller);
-
-    // Map keywords to emojis
-    const emojiMap: Record<string, string> = {
-        fast: '⚡️',
-        slow: '🐢',
-        unit: '🧪',
-        integration: '🧩',
-        table: '🗄️'
-    };
+    registerTestDiagnostics(context);
 
     const tagRegistry = new Map<string, vscode.TestTag>();
-
-    function getEmojiForTag(tagName: string): string {
-        const lower = tagName.toLowerCase();
-        const emojis: string[] = [];
-
-        for (const [key, emoji] of Object.entries(emojiMap)) {
-            if (lower.includes(key)) {
-                emojis.push(emoji);
-            }
-        }
-
-        return emojis.join(' ') + (emojis.length > 0 ? ' ' : '🔹 ');
-    }
+    registerTagAnnotations(context, controller, () => tagRegistry.keys());
 
     function getOrCreateTag(name: string): vscode.TestTag {
         let tag = tagRegistry.get(name);
@@ -46,27 +56,320 @@ export function activate(context: vscode.ExtensionContext) {
             controller.createRunProfile(
                 profileName,
                 vscode.TestRunProfileKind.Run,
-                (request, token) => {
-                    runTestsByTag(controller, name, token, request.profile!);
-                }
+                (request, token) => runTestsByTag(controller, request, token, {
+                    predicate: tags => tags.has(name),
+                    tag: name
+                })
             );
         }
         return tag;
     }
 
     // --- Default Run All Tests (first alphabetically) ---
-    controller.createRunProfile(
+    const runProfile = controller.createRunProfile(
         '▶️ Run All Tests',
         vscode.TestRunProfileKind.Run,
-        (request, token) => runTests(controller, request, token)
+        (request, token) => runTests(controller, request, token),
+        undefined,
+        undefined,
+        true
     );
 
     // --- Default Debug All Tests ---
     controller.createRunProfile(
         '🐞 Debug All Tests',
         vscode.TestRunProfileKind.Debug,
+        (request, token) => runTests(controller, request, token, { debug: true })
+    );
+
+    // --- User-defined tag expression profiles ---
+    let tagExpressionProfiles: vscode.TestRunProfile[] = [];
+
+    function createTagExpressionProfiles() {
+        tagExpressionProfiles.forEach(profile => profile.dispose());
+        tagExpressionProfiles = [];
+
+        const definitions = vscode.workspace
+            .getConfiguration(configSection)
+            .get<TagProfileDefinition[]>('tagProfiles', []);
+
+        for (const definition of definitions) {
+            let predicate: TagPredicate;
+            try {
+                predicate = parseTagExpression(definition.expression);
+            } catch (err: any) {
+                vscode.window.showErrorMessage(`Invalid 4D tag profile "${definition.name}": ${err.message}`);
+                continue;
+            }
+
+            tagExpressionProfiles.push(controller.createRunProfile(
+                `🏷️ ${definition.name}`,
+                vscode.TestRunProfileKind.Run,
+                (request, token) => runTestsByTag(controller, request, token, {
+                    predicate,
+                    tagExpression: definition.expression
+                })
+            ));
+        }
+    }
+
+    createTagExpressionProfiles();
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration(`${configSection}.tagProfiles`)) {
+                createTagExpressionProfiles();
+            }
+        })
+    );
+
+    // --- Run configurations (data file, tool4d, user parameters, env) ---
+    let runConfigurationProfiles: vscode.TestRunProfile[] = [];
+
+    function createRunConfigurationProfiles() {
+        runConfigurationProfiles.forEach(profile => profile.dispose());
+        runConfigurationProfiles = getRunConfigurations().map(runConfiguration =>
+            controller.createRunProfile(
+                `▶️ Run All Tests (${runConfiguration.name})`,
+                vscode.TestRunProfileKind.Run,
+                (request, token) => runTests(controller, request, token, { runConfiguration }),
+                false,
+                undefined,
+                true
+            )
+        );
+    }
+
+    createRunConfigurationProfiles();
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration(`${configSection}.runConfigurations`)) {
+                createRunConfigurationProfiles();
+            }
+        })
+    );
+
+    // --- Run All Tests with Coverage ---
+    const coverageProfile = controller.createRunProfile(
+        '📊 Run All Tests with Coverage',
+        vscode.TestRunProfileKind.Coverage,
         (request, token) => runTests(controller, request, token)
     );
+    coverageProfile.loadDetailedCoverage = loadDetailedCoverage;
+
+    // --- Test history and flaky tests ---
+    const history = new TestHistory(context.workspaceState);
+
+    // The "flaky" tag (and its run profile) only exists once a test turns out flaky
+    function updateFlakyTag(testId: string, item?: vscode.TestItem) {
+        if (history.isFlaky(testId)) {
+            setResultTag(testId, getOrCreateTag('flaky'), '⚠️ flaky', item);
+        } else {
+            setResultTag(testId, new vscode.TestTag('flaky'), undefined, item);
+        }
+    }
+
+    history.testIds().forEach(testId => updateFlakyTag(testId));
+
+    // --- Durations and slow tests ---
+
+    // Slow tests join the tests tagged "slow" in the source, so its profile runs both
+    function updateSlowTag(testId: string, item?: vscode.TestItem) {
+        if (isSlow(history, testId)) {
+            setResultTag(testId, getOrCreateTag('slow'), '🐢 slow', item);
+        } else {
+            setResultTag(testId, new vscode.TestTag('slow'), undefined, item);
+        }
+    }
+
+    history.testIds().forEach(testId => updateSlowTag(testId));
+
+    const durationLenses = new DurationCodeLensProvider(controller, history);
+    context.subscriptions.push(
+        durationLenses,
+        vscode.languages.registerCodeLensProvider(
+            { scheme: 'file', pattern: '**/Project/Sources/Classes/*Test.4dm' },
+            durationLenses
+        ),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration(`${configSection}.durations`)) {
+                history.testIds().forEach(testId =>
+                    updateSlowTag(testId, findTestItems(controller, item => item.id === testId)[0])
+                );
+                durationLenses.refresh();
+            }
+        })
+    );
+
+    // Parallel runs balance their shards with the last recorded durations
+    setDurationEstimator(item => history.entries(item.id).find(e => e.duration !== undefined)?.duration);
+
+    // --- Reports ---
+    let lastRun: TestRunRecord | undefined;
+
+    const exportReports = async (record: TestRunRecord) => {
+        try {
+            return await exportTestReports(record);
+        } catch (err: any) {
+            vscode.window.showErrorMessage(`Could not export 4D test reports: ${err.message}`);
+            return [];
+        }
+    };
+
+    context.subscriptions.push(
+        onDidFinishTestRun(async record => {
+            // Replayed results may come from another machine, so they stay out of the local history
+            if (!record.replayed) {
+                await history.record(record);
+                record.tests.forEach(test => updateFlakyTag(test.item.id, test.item));
+            }
+            if (!record.replayed && !record.debug) {
+                record.tests.forEach(test => updateSlowTag(test.item.id, test.item));
+                durationLenses.refresh();
+
+                const regressions = findDurationRegressions(history, record);
+                if (regressions.length > 0) {
+                    const more = regressions.length > 3 ? ` (and ${regressions.length - 3} more)` : '';
+                    vscode.window.showWarningMessage(`4D tests got slower: ${regressions.slice(0, 3).join('; ')}${more}`);
+                }
+            }
+
+            if (record.tests.length > 0) {
+                lastRun = record;
+                if (vscode.workspace.getConfiguration(configSection).get<boolean>('reports.autoExport', false)) {
+                    await exportReports(record);
+                }
+            }
+        }),
+
+        vscode.commands.registerCommand('4d-testing-extension.exportReports', async () => {
+            if (!lastRun) {
+                vscode.window.showInformationMessage('Run some 4D tests before exporting a report.');
+                return;
+            }
+
+            const files = await exportReports(lastRun);
+            if (files.length > 0) {
+                const open = await vscode.window.showInformationMessage(
+                    `4D test reports written to ${vscode.workspace.asRelativePath(vscode.Uri.joinPath(files[0], '..'))}.`,
+                    'Open HTML Report'
+                );
+                if (open) {
+                    await vscode.env.openExternal(files[1]);
+                }
+            }
+        }),
+
+        vscode.commands.registerCommand('4d-testing-extension.rerunFailed', async () => {
+            const failedIds = new Set(history.lastFailed());
+            const items = findTestItems(controller, item => failedIds.has(item.id));
+            if (items.length === 0) {
+                vscode.window.showInformationMessage('No 4D tests failed in their last run.');
+                return;
+            }
+
+            const request = new vscode.TestRunRequest(items, undefined, runProfile);
+            await startTestRun(controller, request, new vscode.CancellationTokenSource().token);
+        }),
+
+        vscode.commands.registerCommand('4d-testing-extension.replayResults', async (uri?: vscode.Uri) => {
+            if (!uri) {
+                const picked = await vscode.window.showOpenDialog({
+                    title: 'Replay 4D test results',
+                    canSelectFiles: true,
+                    canSelectFolders: true,
+                    filters: { 'Test results': ['json', 'jsonl'] }
+                });
+                uri = picked?.[0];
+            }
+            if (!uri) {
+                return;
+            }
+
+            // Only the tests the saved output reports on are run; the rest keep their results
+            let replayed: ReplayedTests;
+            try {
+                replayed = await listReplayedTests(uri);
+            } catch (err: any) {
+                vscode.window.showErrorMessage(`Could not replay "${uri.fsPath}": ${err.message}`);
+                return;
+            }
+            const items = findTestItems(controller, item => {
+                const suite = item.uri?.path.split('/').pop()?.replace(/\.4dm$/, '') ?? '';
+                return replayed.suites.has(suite) || replayed.tests.has(`${suite}.${item.label}`);
+            });
+            if (items.length === 0) {
+                vscode.window.showInformationMessage(`"${uri.fsPath}" has no results for the 4D tests in this workspace.`);
+                return;
+            }
+
+            const request = new vscode.TestRunRequest(items, undefined, runProfile);
+            await startTestRun(controller, request, new vscode.CancellationTokenSource().token, { replayFrom: uri });
+        }),
+
+        vscode.commands.registerCommand('4d-testing-extension.showHistory', async (item?: vscode.TestItem) => {
+            let testId = item?.id;
+            if (!testId) {
+                const picked = await vscode.window.showQuickPick(
+                    history.testIds().map(id => ({
+                        label: history.label(id),
+                        description: history.isFlaky(id) ? '⚠️ flaky' : undefined,
+                        id
+                    })),
+                    { title: 'Show history of 4D test' }
+                );
+                testId = picked?.id;
+            }
+            if (testId) {
+                await showTestHistory(history, testId);
+            }
+        })
+    );
+
+    // --- Test scaffolding ---
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider(
+            { scheme: 'file', pattern: '**/Project/Sources/Classes/*.4dm' },
+            new ScaffoldCodeActionProvider(),
+            { providedCodeActionKinds: ScaffoldCodeActionProvider.providedCodeActionKinds }
+        ),
+
+        vscode.commands.registerCommand(
+            '4d-testing-extension.scaffoldTests',
+            async (classUri?: vscode.Uri, functionName?: unknown) => {
+                classUri ??= vscode.window.activeTextEditor?.document.uri;
+                if (!classUri || !isProductionClassFile(classUri)) {
+                    vscode.window.showErrorMessage('Open a 4D class from Project/Sources/Classes to generate its tests.');
+                    return;
+                }
+
+                // From the Explorer, the second argument is the list of selected files
+                const { testUri, added, hasPublicFunctions } = await scaffoldTestClass(
+                    classUri,
+                    typeof functionName === 'string' ? functionName : undefined
+                );
+                if (!hasPublicFunctions) {
+                    const className = classUri.path.split('/').pop()!.replace(/\.4dm$/, '');
+                    vscode.window.showInformationMessage(`${className} has no public functions to test.`);
+                    return;
+                }
+                await discoverTests(controller, testUri, getOrCreateTag);
+
+                const editor = await vscode.window.showTextDocument(testUri);
+                const fileItem = findFileItem(controller, testUri);
+                const firstAdded = added.length > 0 ? fileItem?.children.get(`${testUri}/${added[0]}`) : undefined;
+                if (firstAdded?.range) {
+                    editor.selection = new vscode.Selection(firstAdded.range.start, firstAdded.range.start);
+                    editor.revealRange(firstAdded.range);
+                }
+                if (firstAdded ?? fileItem) {
+                    await vscode.commands.executeCommand('vscode.revealTestInExplorer', firstAdded ?? fileItem);
+                }
+                if (added.length === 0) {
+                    vscode.window.showInformationMessage(`Every public function already has a test in ${testUri.path.split('/').pop()}.`);
+                }
+            }
+        )
+    );
 
     // Discover tests when workspace opens or folders change
     if (vscode.workspace.workspaceFolders) {
@@ -75,26 +378,94 @@ export function activate(context: vscode.ExtensionContext) {
         );
     }
 
-    vscode.workspace.onDidChangeWorkspaceFolders(event => {
-        event.added.forEach(folder =>
-            discoverTests(controller, folder.uri, getOrCreateTag)
-        );
-    });
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeWorkspaceFolders(event => {
+            event.added.forEach(folder =>
+                discoverTests(controller, folder.uri, getOrCreateTag)
+            );
+            event.removed.forEach(folder => removeFolderItems(controller, folder.uri));
+        })
+    );
 
-    vscode.workspace.onDidChangeTextDocument(event => {
-        discoverTests(controller, event.document.uri, getOrCreateTag);
+    // Keep the tree in sync with changes made on disk: saves, git checkouts,
+    // other editors, deletes and renames (delete + create)
+    const watcher = vscode.workspace.createFileSystemWatcher('**/Project/Sources/Classes/*Test.4dm');
+    context.subscriptions.push(
+        watcher,
+        watcher.onDidCreate(uri => discoverTests(controller, uri, getOrCreateTag)),
+        watcher.onDidChange(uri => discoverTests(controller, uri, getOrCreateTag)),
+        watcher.onDidDelete(uri => {
+            const fileItem = findFileItem(controller, uri);
+            if (fileItem) {
+                removeFileItem(controller, fileItem);
+            }
+        })
+    );
+
+    // No events are sent for the files of a folder that is deleted, moved or
+    // checked out as a whole (Classes/, a project, a component)
+    const folderWatcher = vscode.workspace.createFileSystemWatcher('**/*', false, true, false);
+    context.subscriptions.push(
+        folderWatcher,
+        folderWatcher.onDidCreate(async uri => {
+            try {
+                if ((await vscode.workspace.fs.stat(uri)).type & vscode.FileType.Directory) {
+                    await discoverTests(controller, uri, getOrCreateTag);
+                }
+            } catch {
+                // Gone again before it could be read
+            }
+        }),
+        folderWatcher.onDidDelete(uri => removeItemsUnder(controller, uri))
+    );
+
+    // Reflect unsaved edits in open test classes
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeTextDocument(event => {
+            const uri = event.document.uri;
+            if (!isTestClassFile(uri)) {
+                return;
+            }
+            const fileItem = getOrCreateFileItem(controller, uri);
+            if (fileItem) {
+                updateFromContents(controller, event.document.getText(), fileItem, getOrCreateTag);
+            }
+        })
+    );
+}
+
+// Only files on disk: a git: document (e.g. one side of a diff) shares the file's path but not its contents
+function isTestClassFile(uri: vscode.Uri): boolean {
+    return uri.scheme === 'file' && uri.path.endsWith('Test.4dm') && getProjectRoot(uri) !== undefined;
+}
+
+// Remove the projects of a workspace folder that was closed
+function removeFolderItems(controller: vscode.TestController, folderUri: vscode.Uri) {
+    const prefix = folderUri.toString().replace(/\/?$/, '/');
+    const removed: string[] = [];
+    controller.items.forEach(item => {
+        if (item.id === folderUri.toString() || item.id.startsWith(prefix)) {
+            removed.push(item.id);
+        }
     });
+    removed.forEach(id => controller.items.delete(id));
+}
 
-    vscode.workspace.onDidCreateFiles(event => {
-        event.files.forEach(file => {
-            if (file.fsPath.endsWith('.4dm')) {
-                discoverTests(controller, file, getOrCreateTag);
+// Remove the test files that were inside a deleted folder
+function removeItemsUnder(controller: vscode.TestController, folderUri: vscode.Uri) {
+    const prefix = folderUri.path.replace(/\/?$/, '/');
+    const removed: vscode.TestItem[] = [];
+    controller.items.forEach(projectItem => {
+        projectItem.children.forEach(fileItem => {
+            if (fileItem.uri?.scheme === folderUri.scheme && fileItem.uri.path.startsWith(prefix)) {
+                removed.push(fileItem);
             }
         });
     });
+    removed.forEach(fileItem => removeFileItem(controller, fileItem));
 }
 
-// Discover all 4D test files
+// Discover all 4D test files, grouped by the 4D project they belong to
 async function discoverTests(
     controller: vscode.TestController,
     rootUri: vscode.Uri,
@@ -105,24 +476,20 @@ async function discoverTests(
         if (rootUri.toString().endsWith('.4dm')) {
             files = [rootUri];
         } else {
+            // Any folder containing Project/Sources is a 4D project, however deeply nested.
+            // A folder within a project (e.g. a recreated Classes/) is searched as a whole.
             const pattern = new vscode.RelativePattern(
-                vscode.Uri.joinPath(rootUri, 'Project', 'Sources', 'Classes'),
-                '*Test.4dm'
+                rootUri,
+                /\/Project(\/|$)/.test(rootUri.path) ? '**/*Test.4dm' : '**/Project/Sources/Classes/*Test.4dm'
             );
-            files = await vscode.workspace.findFiles(pattern);
+            files = await vscode.workspace.findFiles(pattern, '**/node_modules/**');
         }
 
         for (const file of files) {
-            const id = file.fsPath;
-            const testItem = controller.createTestItem(
-                id,
-                file.path.split('/').pop()!,
-                file
-            );
-            controller.items.add(testItem);
-            testData.set(testItem, { kind: 'file' });
-
-            await updateFromDisk(controller, testItem, getOrCreateTag);
+            const testItem = getOrCreateFileItem(controller, file);
+            if (testItem) {
+                await updateFromDisk(controller, testItem, getOrCreateTag);
+            }
         }
     } catch (err) {
         console.error('Error discovering 4D tests:', err);
@@ -133,7 +500,8 @@ async function discoverTests(
 async function runTests(
     controller: vscode.TestController,
     request: vscode.TestRunRequest,
-    token: vscode.CancellationToken
+    token: vscode.CancellationToken,
+    options: TestRunOptions = {}
 ) {
     const testItems: vscode.TestItem[] = [];
 
@@ -145,37 +513,67 @@ async function runTests(
 
     if (testItems.length === 0) return;
 
-    await startTestRun(controller, request, token);
+    if (request.continuous) {
+        await runContinuously(controller, request, token, (r, t) => startTestRun(controller, r, t, options));
+        return;
+    }
+
+    await startTestRun(controller, request, token, options);
+}
+
+interface TagFilter {
+    predicate: TagPredicate;
+    // Forwarded to the runner so it can filter by tag itself
+    tag?: string;
+    tagExpression?: string;
 }
 
-// Run tests filtered by tag
+// Run tests filtered by tag, within the selection if there is one
 async function runTestsByTag(
     controller: vscode.TestController,
-    tagName: string,
+    request: vscode.TestRunRequest,
     token: vscode.CancellationToken,
-    profile: vscode.TestRunProfile
+    filter: TagFilter
 ) {
     const testItems: vscode.TestItem[] = [];
+    // The runner only knows the tags of // #tags: annotations, not result tags such as flaky
+    let runnerCanFilter = true;
 
     const walk = (item: vscode.TestItem) => {
-        if (item.tags.some(tag => tag.id === tagName)) {
-            testItems.push(item);
+        const data = testData.get(item);
+        if (data instanceof LifecycleHook && item.parent) {
+            walk(item.parent);
+            return;
+        }
+        if (data instanceof TestHeading) {
+            const matches = filter.predicate(new Set(item.tags.map(tag => tag.id)));
+            if (matches !== filter.predicate(new Set(data.tags.map(tag => tag.id)))) {
+                runnerCanFilter = false;
+            }
+            if (matches) {
+                testItems.push(item);
+            }
+            return;
         }
         item.children.forEach(c => walk(c));
     };
 
-    controller.items.forEach(c => walk(c));
+    if (request.include) {
+        request.include.forEach(c => walk(c));
+    } else {
+        controller.items.forEach(c => walk(c));
+    }
 
     if (testItems.length === 0) return;
 
-    const fakeRequest: vscode.TestRunRequest = {
-        include: testItems,
-        exclude: [],
-        profile: profile,
-        preserveFocus: false
-    };
+    const tagRequest = new vscode.TestRunRequest(testItems, request.exclude, request.profile);
 
-    await startTestRun(controller, fakeRequest, token);
+    // A selection within the profile, or a match that depends on result tags,
+    // is run as an explicit list of tests
+    await startTestRun(controller, tagRequest, token, request.include || !runnerCanFilter ? {} : {
+        tag: filter.tag,
+        tagExpression: filter.tagExpression
+    });
 }
 
 export function deactivate() {}
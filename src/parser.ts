@@ -1,120 +1,306 @@
-import * as vscode from 'vscode';
-
-const headingRe = /^.*?(?:\/\/ #tags: (.*))?\n?Function (test_.*)\(.*$/;
-
-export const parseMarkdown = (
-    text: string,
-    events: {
-        onHeading(
-            range: vscode.Range,
-            name: string,
-            depth: number,
-            headingTags: string[]
-        ): void;
-    }
-): boolean => {
-    const lines = text.split('\n');
-    let lastline = '';
-    let foundFunction = false;
-
-    for (let lineNo = 0; lineNo < lines.length; lineNo++) {
-        const line = lines[lineNo];
-
-        // --- Headings ---
-        const combined = (lastline ? lastline + '\n' : '') + line;
-        const heading = headingRe.exec(combined);
-        lastline = line;
-
-        if (heading) {
-            var [, tagsString, name] = heading;
-            foundFunction = true;
-            tagsString = tagsString ? tagsString : "unit"
-            const depth = tagsString ? tagsString.split(':').length : 1;
-            const headingTags = tagsString ? tagsString.split(',').map(t => t.trim()) : [];
-
-            const range = new vscode.Range(
-                new vscode.Position(lineNo, 0),
-                new vscode.Position(lineNo, line.length)
-            );
-            events.onHeading(range, name, depth, headingTags);
-        }
-    }
-
-    return foundFunction;
-};
-
-/**
- * Maps a 4D function-relative line number to the actual source file line number.
- *
- * 4D counts lines with continuation characters (\) as a single line, but the source
- * file stores them as multiple lines. This function accounts for that difference.
- *
- * @param fileUri - URI of the source file
- * @param functionName - Fully qualified function name (e.g., "ClassName.methodName")
- * @param lineOffset - Line offset from the function start (1-based, as reported by 4D)
- * @returns The actual line number in the source file (0-based), or null if not found
- */
-export async function mapFunctionLineToSourceLine(
-    fileUri: vscode.Uri,
-    functionName: string,
-    lineOffset: number
-): Promise<number | null> {
-    try {
-        // Read the source file
-        const rawContent = await vscode.workspace.fs.readFile(fileUri);
-        const content = new TextDecoder().decode(rawContent);
-        const lines = content.split('\n');
-
-        // Extract the method name from the fully qualified name
-        // Format is typically "ClassName.methodName" or just "methodName"
-        const methodName = functionName.split('.').pop() || functionName;
-
-        // Find the function definition line
-        let functionStartLine = -1;
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i].trim();
-            if (line.match(new RegExp(`^Function\\s+${methodName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*\\(`))) {
-                functionStartLine = i;
-                break;
-            }
-        }
-
-        if (functionStartLine === -1) {
-            return null; // Function not found
-        }
-
-        // Now count logical lines (4D lines) vs actual lines
-        // 4D counts lines ending with \ as part of the same logical line
-        // 4D treats the function declaration as line 0, so start from the next line
-        let logicalLinesCompleted = 0;
-        let lineIndex = functionStartLine + 1;
-
-        while (lineIndex < lines.length) {
-            const currentLine = lines[lineIndex];
-
-            // Check if this line ends with a continuation character
-            // Note: We need to check for \ at the end, ignoring trailing whitespace
-            const trimmedLine = currentLine.trimEnd();
-            const hasContinuation = trimmedLine.endsWith('\\');
-
-            if (!hasContinuation) {
-                // End of a logical line
-                logicalLinesCompleted++;
-
-                // Check if this is the line we're looking for
-                if (logicalLinesCompleted === lineOffset) {
-                    return lineIndex; // Found it!
-                }
-            }
-
-            lineIndex++;
-        }
-
-        // Didn't find the target line
-        return null;
-
-    } catch (err) {
-        console.error(`Error mapping function line to source line:`, err);
-        return null;
-    }
-}
+import * as vscode from 'vscode';
+
+export interface ClassFunction {
+    name: string;
+    kind: 'function' | 'constructor' | 'get' | 'set';
+    // e.g. shared, local, exposed
+    modifiers: string[];
+    parameters: string;
+    // Declaration line(s), including lines joined with a trailing \
+    declaration: vscode.Range;
+    // Declaration through the last line of code of the body
+    range: vscode.Range;
+    // `// #name: a, b` comments above the declaration, e.g. tags -> [a, b]
+    annotations: Map<string, string[]>;
+}
+
+export interface ClassModel {
+    name: string;
+    baseClass?: string;
+    functions: ClassFunction[];
+}
+
+interface LogicalLine {
+    // Code with comments removed and string literals emptied
+    code: string;
+    // Text of a line that holds nothing but a // comment
+    comment?: string;
+    startLine: number;
+    endLine: number;
+}
+
+const extendsRe = /^Class\s+extends\s+([\w.]+)/i;
+const constructorRe = /^((?:\w+\s+)*?)Class\s+constructor\b\s*(?:\((.*)\))?/i;
+const functionRe = /^((?:(?:shared|local|exposed|server|onHTTPGet)\s+)*)Function\s+(?:(get|set)\s+(?=\w))?(\w+)\s*(?:\((.*)\))?/i;
+const annotationRe = /^#([\w-]+)\s*:\s*(.*)$/;
+
+/**
+ * Splits 4D source into logical lines: block comments and // comments are
+ * stripped, and lines joined by a trailing \ are merged.
+ */
+function tokenize(lines: string[]): LogicalLine[] {
+    const logicalLines: LogicalLine[] = [];
+    let inBlockComment = false;
+    let pending: LogicalLine | undefined;
+
+    for (let lineNo = 0; lineNo < lines.length; lineNo++) {
+        const line = lines[lineNo];
+        let code = '';
+        let comment: string | undefined;
+        let i = 0;
+
+        while (i < line.length) {
+            if (inBlockComment) {
+                const end = line.indexOf('*/', i);
+                inBlockComment = end === -1;
+                i = end === -1 ? line.length : end + 2;
+            } else if (line[i] === '"') {
+                // Skip the string literal so comment markers inside it are ignored
+                let j = i + 1;
+                while (j < line.length && line[j] !== '"') {
+                    j += line[j] === '\\' ? 2 : 1;
+                }
+                code += '""';
+                i = j + 1;
+            } else if (line.startsWith('//', i)) {
+                if (code.trim() === '') {
+                    comment = line.substring(i + 2).trim();
+                }
+                i = line.length;
+            } else if (line.startsWith('/*', i)) {
+                inBlockComment = true;
+                i += 2;
+            } else {
+                code += line[i++];
+            }
+        }
+
+        const trimmed = code.trim();
+        const continues = trimmed.endsWith('\\');
+        const text = continues ? trimmed.slice(0, -1).trimEnd() : trimmed;
+
+        if (pending) {
+            pending.code += ' ' + text;
+            pending.endLine = lineNo;
+        } else {
+            pending = { code: text, comment, startLine: lineNo, endLine: lineNo };
+        }
+
+        if (!continues) {
+            logicalLines.push(pending);
+            pending = undefined;
+        }
+    }
+
+    if (pending) {
+        logicalLines.push(pending);
+    }
+    return logicalLines;
+}
+
+/**
+ * Parses a 4D class file into its name, base class and functions.
+ *
+ * @param text - Contents of the .4dm file
+ * @param name - Class name, which in 4D is the file name without extension
+ */
+export function parseClassFile(text: string, name: string): ClassModel {
+    const lines = text.split('\n');
+    const model: ClassModel = { name, functions: [] };
+
+    let current: ClassFunction | undefined;
+    let lastCodeLine = -1;
+    let annotations = new Map<string, string[]>();
+
+    const closeCurrent = () => {
+        if (current) {
+            const endLine = Math.max(lastCodeLine, current.declaration.end.line);
+            current.range = new vscode.Range(current.declaration.start, new vscode.Position(endLine, lines[endLine].length));
+            current = undefined;
+        }
+    };
+
+    for (const logical of tokenize(lines)) {
+        if (!logical.code) {
+            // Annotations may be separated from the declaration by blank lines and other comments
+            const annotation = logical.comment !== undefined ? annotationRe.exec(logical.comment) : null;
+            if (annotation) {
+                const values = annotation[2].split(',').map(v => v.trim()).filter(v => v.length > 0);
+                const key = annotation[1].toLowerCase();
+                annotations.set(key, [...(annotations.get(key) ?? []), ...values]);
+            }
+            continue;
+        }
+
+        const declaration = new vscode.Range(
+            logical.startLine, 0,
+            logical.endLine, lines[logical.endLine].length
+        );
+
+        const extendsMatch = extendsRe.exec(logical.code);
+        const constructorMatch = extendsMatch ? null : constructorRe.exec(logical.code);
+        const functionMatch = extendsMatch || constructorMatch ? null : functionRe.exec(logical.code);
+
+        if (extendsMatch) {
+            model.baseClass = extendsMatch[1];
+        } else if (constructorMatch || functionMatch) {
+            closeCurrent();
+            const match = (constructorMatch ?? functionMatch)!;
+            current = {
+                name: constructorMatch ? 'constructor' : functionMatch![3],
+                kind: constructorMatch ? 'constructor' : (functionMatch![2]?.toLowerCase() as 'get' | 'set' | undefined) ?? 'function',
+                modifiers: match[1].trim().split(/\s+/).filter(m => m.length > 0).map(m => m.toLowerCase()),
+                parameters: ((constructorMatch ? constructorMatch[2] : functionMatch![4]) ?? '').trim(),
+                declaration,
+                range: declaration,
+                annotations
+            };
+            model.functions.push(current);
+        }
+
+        lastCodeLine = logical.endLine;
+        annotations = new Map();
+    }
+
+    closeCurrent();
+    return model;
+}
+
+// Lifecycle functions the testing framework calls around tests, in the order they run
+export const lifecycleHooks = ['beforeAll', 'setup', 'beforeEach', 'afterEach', 'teardown', 'afterAll'] as const;
+
+export type LifecycleHookName = typeof lifecycleHooks[number];
+
+/**
+ * Returns which lifecycle hook a class function is, if any. 4D names are case
+ * insensitive, so `BeforeAll` counts as `beforeAll`.
+ */
+export function getLifecycleHook(classFunction: ClassFunction): LifecycleHookName | undefined {
+    if (classFunction.kind !== 'function') {
+        return undefined;
+    }
+    const name = classFunction.name.toLowerCase();
+    return lifecycleHooks.find(hook => hook.toLowerCase() === name);
+}
+
+/**
+ * Finds a function of a parsed class by name. "constructor" finds the class
+ * constructor. Names are compared exactly first, then ignoring case as 4D does,
+ * so a `beforeAll` hook error finds `Function BeforeAll()`.
+ */
+export function findClassFunction(model: ClassModel, methodName: string): ClassFunction | undefined {
+    const lowerName = methodName.toLowerCase();
+    const matchers = [
+        (f: ClassFunction) => f.name === methodName,
+        (f: ClassFunction) => f.name.toLowerCase() === lowerName
+    ];
+    for (const matches of matchers) {
+        const found = model.functions.find(f => matches(f) && f.kind !== 'set') ?? model.functions.find(matches);
+        if (found) {
+            return found;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Maps a 4D function-relative line number to the actual source file line number.
+ *
+ * 4D counts lines with continuation characters (\) as a single line, but the source
+ * file stores them as multiple lines. This function accounts for that difference.
+ *
+ * @param fileUri - URI of the source file
+ * @param functionName - Fully qualified function name (e.g., "ClassName.methodName")
+ * @param lineOffset - Line offset from the function start (1-based, as reported by 4D)
+ * @returns The actual line number in the source file (0-based), or null if not found
+ */
+export async function mapFunctionLineToSourceLine(
+    fileUri: vscode.Uri,
+    functionName: string,
+    lineOffset: number
+): Promise<number | null> {
+    try {
+        // Read the source file
+        const rawContent = await vscode.workspace.fs.readFile(fileUri);
+        const content = new TextDecoder().decode(rawContent);
+        const lines = content.split('\n');
+
+        // Extract the method name from the fully qualified name
+        // Format is typically "ClassName.methodName" or just "methodName"
+        const methodName = functionName.split('.').pop() || functionName;
+
+        const className = fileUri.path.split('/').pop()!.replace(/\.4dm$/, '');
+        const classFunction = findClassFunction(parseClassFile(content, className), methodName);
+        if (!classFunction) {
+            return null; // Function not found
+        }
+
+        // 4D treats the whole declaration as line 0
+        return mapLogicalLine(lines, classFunction.declaration.end.line, lineOffset);
+
+    } catch (err) {
+        console.error(`Error mapping function line to source line:`, err);
+        return null;
+    }
+}
+
+/**
+ * Maps a 4D logical line number to the source line it ends on.
+ *
+ * 4D treats the function declaration as line 0, so counting starts on the line after
+ * `startLine`. For project methods, which have no declaration, pass -1.
+ *
+ * @param lines - Source file lines
+ * @param startLine - The last declaration line (0-based), or -1 for project methods
+ * @param lineOffset - Logical line number (1-based, as reported by 4D)
+ * @returns The actual line number in the source file (0-based), or null if not found
+ */
+export function mapLogicalLine(lines: string[], startLine: number, lineOffset: number): number | null {
+    // Now count logical lines (4D lines) vs actual lines
+    // 4D counts lines ending with \ as part of the same logical line
+    let logicalLinesCompleted = 0;
+    let lineIndex = startLine + 1;
+
+    while (lineIndex < lines.length) {
+        const currentLine = lines[lineIndex];
+
+        // Check if this line ends with a continuation character
+        // Note: We need to check for \ at the end, ignoring trailing whitespace
+        const trimmedLine = currentLine.trimEnd();
+        const hasContinuation = trimmedLine.endsWith('\\');
+
+        if (!hasContinuation) {
+            // End of a logical line
+            logicalLinesCompleted++;
+
+            // Check if this is the line we're looking for
+            if (logicalLinesCompleted === lineOffset) {
+                return lineIndex; // Found it!
+            }
+        }
+
+        lineIndex++;
+    }
+
+    // Didn't find the target line
+    return null;
+}
+
+/**
+ * Maps a source line to the 4D logical line number it belongs to, the inverse
+ * of mapLogicalLine.
+ *
+ * @param lines - Source file lines
+ * @param startLine - The last declaration line (0-based), or -1 for project methods
+ * @param sourceLine - Line in the source file (0-based), after startLine
+ * @returns Logical line number (1-based, as used by 4D)
+ */
+export function mapSourceLineToLogicalLine(lines: string[], startLine: number, sourceLine: number): number {
+    let logicalLine = 1;
+    for (let lineIndex = startLine + 1; lineIndex < sourceLine && lineIndex < lines.length; lineIndex++) {
+        if (!lines[lineIndex].trimEnd().endsWith('\\')) {
+            logicalLine++;
+        }
+    }
+    return logicalLine;
+}
@@ -0,0 +1,74 @@
+import { ChildProcess, spawn } from 'child_process';
+
+// How long a terminated runner gets to exit before it is killed outright
+const killGracePeriodMs = 3000;
+// How long the output of an exited runner may stay open, held by a process it left behind
+const outputCloseGracePeriodMs = killGracePeriodMs + 2000;
+
+/**
+ * Spawn options that let killProcessTree reach every descendant. On POSIX the
+ * runner becomes the leader of its own process group (make -> tool4d).
+ */
+export function processTreeSpawnOptions(): { detached: boolean } {
+    return { detached: process.platform !== 'win32' };
+}
+
+/**
+ * Terminates a runner together with all processes it started. On POSIX the
+ * whole group is killed after the grace period even if the runner itself has
+ * exited, since a descendant ignoring SIGTERM would otherwise survive it.
+ */
+export function killProcessTree(child: ChildProcess) {
+    if (child.pid === undefined) {
+        return;
+    }
+
+    if (process.platform === 'win32') {
+        if (child.exitCode === null && child.signalCode === null) {
+            spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { windowsHide: true })
+                .on('error', () => child.kill());
+        }
+        return;
+    }
+
+    const pid = child.pid;
+    const signalGroup = (signal: NodeJS.Signals) => {
+        try {
+            process.kill(-pid, signal);
+        } catch {
+            // Group already gone (ESRCH), or the runner was not started detached
+            child.kill(signal);
+        }
+    };
+
+    signalGroup('SIGTERM');
+    setTimeout(() => signalGroup('SIGKILL'), killGracePeriodMs);
+}
+
+/**
+ * Calls back once a runner has exited and its output has closed. When a
+ * process it left behind keeps the output open, that process is killed and
+ * the output abandoned after a grace period, so the run still ends.
+ */
+export function onProcessTreeExit(child: ChildProcess, callback: (exitCode: number | null) => void) {
+    let exited = false;
+    let outputTimer: NodeJS.Timeout | undefined;
+
+    const finish = (exitCode: number | null) => {
+        if (!exited) {
+            exited = true;
+            clearTimeout(outputTimer);
+            callback(exitCode);
+        }
+    };
+
+    child.once('exit', (exitCode: number | null) => {
+        outputTimer = setTimeout(() => {
+            killProcessTree(child);
+            child.stdout?.destroy();
+            child.stderr?.destroy();
+            finish(exitCode);
+        }, outputCloseGracePeriodMs);
+    });
+    child.once('close', (exitCode: number | null) => finish(exitCode));
+}
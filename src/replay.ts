@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import { extractJsonResults, parseRunnerEvent, RunnerEvent, RunResults } from './resultStream';
+
+export interface ReplayHandlers {
+    handleEvent(event: RunnerEvent): Promise<void>;
+    handleResults(results: RunResults): Promise<void>;
+    appendOutput(text: string): void;
+}
+
+/**
+ * Tests that saved runner output has results for.
+ */
+export interface ReplayedTests {
+    // "Suite.test_name"
+    tests: Set<string>;
+    // Classes whose every test is affected, e.g. by a failed beforeAll
+    suites: Set<string>;
+}
+
+/**
+ * Feeds saved runner output through the same handlers as a live run. A file can
+ * hold streamed events (one JSON object per line) or a single results object;
+ * a folder replays every `.json` and `.jsonl` file in it, in name order.
+ *
+ * @returns Whether any results were found
+ */
+export async function replayRunnerOutput(location: vscode.Uri, handlers: ReplayHandlers): Promise<boolean> {
+    let found = false;
+    for (const file of await listReplayFiles(location)) {
+        handlers.appendOutput(`Replaying ${file.fsPath}\n`);
+        const { events, results } = await readReplayFile(file);
+
+        if (events.length > 0) {
+            found = true;
+            for (const event of events) {
+                await handlers.handleEvent(event);
+            }
+        } else if (results) {
+            found = true;
+            await handlers.handleResults(results);
+        } else {
+            handlers.appendOutput(`No runner results found in ${file.fsPath}\n`);
+        }
+    }
+    return found;
+}
+
+/**
+ * Lists the tests saved runner output reports on, so that a replay only
+ * touches those.
+ */
+export async function listReplayedTests(location: vscode.Uri): Promise<ReplayedTests> {
+    const replayed: ReplayedTests = { tests: new Set(), suites: new Set() };
+    const addHookError = (suite: string, test?: string) => {
+        if (test === undefined) {
+            replayed.suites.add(suite);
+        } else {
+            replayed.tests.add(`${suite}.${test}`);
+        }
+    };
+
+    for (const file of await listReplayFiles(location)) {
+        const { events, results } = await readReplayFile(file);
+        for (const event of events) {
+            if (event.event === 'hookError') {
+                addHookError(event.suite, event.test);
+            } else if ('suite' in event && 'name' in event) {
+                replayed.tests.add(`${event.suite}.${event.name}`);
+            }
+        }
+        results?.testResults?.forEach(result => replayed.tests.add(`${result.suite}.${result.name}`));
+        results?.hookErrors?.forEach(error => addHookError(error.suite, error.test));
+    }
+    return replayed;
+}
+
+async function readReplayFile(file: vscode.Uri): Promise<{ events: RunnerEvent[]; results: RunResults | null }> {
+    const rawContent = await vscode.workspace.fs.readFile(file);
+    const content = new TextDecoder().decode(rawContent);
+
+    const events = content.split(/\r?\n/)
+        .map(line => parseRunnerEvent(line))
+        .filter((event): event is RunnerEvent => event !== null);
+    return { events, results: events.length > 0 ? null : extractJsonResults(content) };
+}
+
+async function listReplayFiles(location: vscode.Uri): Promise<vscode.Uri[]> {
+    const stat = await vscode.workspace.fs.stat(location);
+    if (stat.type & vscode.FileType.Directory) {
+        const entries = await vscode.workspace.fs.readDirectory(location);
+        return entries
+            .filter(([name, type]) => type & vscode.FileType.File && /\.jsonl?$/i.test(name))
+            .map(([name]) => name)
+            .sort()
+            .map(name => vscode.Uri.joinPath(location, name));
+    }
+    return [location];
+}
@@ -0,0 +1,208 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { RecordedTest, TestRunRecord, TestStatus } from './results';
+import { configSection } from './runnerConfig';
+import { formatValue } from './valueFormat';
+
+/**
+ * Writes a run's results as `junit.xml` and `report.html` into the folder set by
+ * `reports.folder`, relative to the first workspace folder.
+ *
+ * @returns The written files
+ */
+export async function exportTestReports(record: TestRunRecord): Promise<vscode.Uri[]> {
+    const folder = getReportFolder();
+    if (!folder) {
+        throw new Error('Open a workspace folder to export 4D test reports.');
+    }
+
+    await vscode.workspace.fs.createDirectory(folder);
+    const junitUri = vscode.Uri.joinPath(folder, 'junit.xml');
+    const htmlUri = vscode.Uri.joinPath(folder, 'report.html');
+
+    const encoder = new TextEncoder();
+    await vscode.workspace.fs.writeFile(junitUri, encoder.encode(buildJUnitReport(record)));
+    await vscode.workspace.fs.writeFile(htmlUri, encoder.encode(buildHtmlReport(record)));
+    return [junitUri, htmlUri];
+}
+
+function getReportFolder(): vscode.Uri | undefined {
+    const setting = vscode.workspace.getConfiguration(configSection).get<string>('reports.folder', 'test-reports');
+    if (path.isAbsolute(setting)) {
+        return vscode.Uri.file(setting);
+    }
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    return workspaceFolder && vscode.Uri.joinPath(workspaceFolder.uri, setting);
+}
+
+// Tests grouped by class, in the order they were reported
+function groupBySuite(record: TestRunRecord): Map<string, RecordedTest[]> {
+    const suites = new Map<string, RecordedTest[]>();
+    for (const test of record.tests) {
+        if (!suites.has(test.suite)) {
+            suites.set(test.suite, []);
+        }
+        suites.get(test.suite)!.push(test);
+    }
+    return suites;
+}
+
+function countStatus(tests: RecordedTest[], ...statuses: TestStatus[]): number {
+    return tests.filter(t => statuses.includes(t.status)).length;
+}
+
+function totalSeconds(tests: RecordedTest[]): string {
+    return (tests.reduce((sum, t) => sum + (t.duration ?? 0), 0) / 1000).toFixed(3);
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+        // Control characters are not allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+// Failure details: the failed assertions with their expected and actual values
+function describeFailures(test: RecordedTest): string {
+    const failed = test.assertions.filter(a => !a.passed);
+    if (failed.length === 0) {
+        return test.message ?? '';
+    }
+
+    return failed.map(assertion => {
+        const lines = [assertion.message ?? 'Assertion failed'];
+        if (assertion.line !== undefined) {
+            lines[0] += ` (line ${assertion.line})`;
+        }
+        if ('expected' in assertion || 'actual' in assertion) {
+            lines.push(`Expected: ${formatValue(assertion.expected)}`);
+            lines.push(`Actual:   ${formatValue(assertion.actual)}`);
+        }
+        return lines.join('\n');
+    }).join('\n\n');
+}
+
+/**
+ * Builds the JUnit XML of a run, one `testsuite` per test class.
+ */
+export function buildJUnitReport(record: TestRunRecord): string {
+    const suites = groupBySuite(record);
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="4D tests" tests="${record.tests.length}" ` +
+        `failures="${countStatus(record.tests, 'failed')}" errors="${countStatus(record.tests, 'errored', 'cancelled')}" ` +
+        `skipped="${countStatus(record.tests, 'skipped')}" time="${totalSeconds(record.tests)}" ` +
+        `timestamp="${new Date(record.startedAt).toISOString()}">`
+    ];
+
+    for (const [suite, tests] of suites) {
+        lines.push(
+            `  <testsuite name="${escapeXml(suite)}" tests="${tests.length}" ` +
+            `failures="${countStatus(tests, 'failed')}" errors="${countStatus(tests, 'errored', 'cancelled')}" ` +
+            `skipped="${countStatus(tests, 'skipped')}" time="${totalSeconds(tests)}">`
+        );
+        if (record.configuration) {
+            lines.push(
+                '    <properties>',
+                `      <property name="configuration" value="${escapeXml(record.configuration)}"/>`,
+                '    </properties>'
+            );
+        }
+
+        for (const test of tests) {
+            const time = ((test.duration ?? 0) / 1000).toFixed(3);
+            lines.push(`    <testcase classname="${escapeXml(suite)}" name="${escapeXml(test.name)}" time="${time}">`);
+
+            const tags = test.item.tags.map(tag => tag.id);
+            if (tags.length > 0) {
+                lines.push('      <properties>');
+                tags.forEach(tag => lines.push(`        <property name="tag" value="${escapeXml(tag)}"/>`));
+                lines.push('      </properties>');
+            }
+
+            const details = escapeXml(describeFailures(test));
+            const summary = escapeXml(test.message?.split('\n')[0] ?? '');
+            if (test.status === 'failed') {
+                lines.push(`      <failure message="${summary}" type="AssertionFailure">${details}</failure>`);
+            } else if (test.status === 'errored') {
+                lines.push(`      <error message="${summary}" type="Error">${details}</error>`);
+            } else if (test.status === 'cancelled') {
+                lines.push(`      <error message="${summary}" type="Cancelled">${details}</error>`);
+            } else if (test.status === 'skipped') {
+                lines.push('      <skipped/>');
+            }
+            lines.push('    </testcase>');
+        }
+        lines.push('  </testsuite>');
+    }
+
+    lines.push('</testsuites>', '');
+    return lines.join('\n');
+}
+
+const statusColors: Record<TestStatus, string> = {
+    passed: '#2e7d32',
+    failed: '#c62828',
+    errored: '#ef6c00',
+    skipped: '#757575',
+    cancelled: '#8d6e63'
+};
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function buildHtmlReport(record: TestRunRecord): string {
+    const started = new Date(record.startedAt).toLocaleString();
+    const summary = (['passed', 'failed', 'errored', 'skipped', 'cancelled'] as TestStatus[])
+        .map(status => `<span style="color:${statusColors[status]}">${countStatus(record.tests, status)} ${status}</span>`)
+        .join(' · ');
+
+    const sections: string[] = [];
+    for (const [suite, tests] of groupBySuite(record)) {
+        const rows = tests.map(test => {
+            const details = test.status === 'failed' || test.status === 'errored' || test.status === 'cancelled'
+                ? `<pre>${escapeHtml(describeFailures(test))}</pre>`
+                : '';
+            const tags = test.item.tags.map(tag => `<span class="tag">${escapeHtml(tag.id)}</span>`).join(' ');
+            return `<tr><td>${escapeHtml(test.name)} ${tags}${details}</td>` +
+                `<td style="color:${statusColors[test.status]}">${test.status}</td>` +
+                `<td class="num">${test.duration !== undefined ? `${test.duration} ms` : ''}</td></tr>`;
+        }).join('\n');
+
+        sections.push(
+            `<h2>${escapeHtml(suite)}</h2>\n<table>\n<tr><th>Test</th><th>Status</th><th>Duration</th></tr>\n${rows}\n</table>`
+        );
+    }
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>4D test report</title>
+<style>
+body { font-family: -apple-system, "Segoe UI", sans-serif; margin: 2em; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 2em; }
+th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #ddd; vertical-align: top; }
+td.num { text-align: right; white-space: nowrap; }
+pre { background: #f5f5f5; padding: 8px; white-space: pre-wrap; }
+.tag { font-size: 0.8em; background: #e3f2fd; border-radius: 3px; padding: 0 4px; }
+</style>
+</head>
+<body>
+<h1>4D test report</h1>
+<p>${record.configuration ? `${escapeHtml(record.configuration)} · ` : ''}${escapeHtml(started)} · ${record.tests.length} tests · ${totalSeconds(record.tests)} s</p>
+<p>${summary}</p>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
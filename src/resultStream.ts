@@ -0,0 +1,198 @@
+export interface AssertionResult {
+    passed: boolean;
+    message?: string;
+    expected?: unknown;
+    actual?: unknown;
+    line?: number;
+    functionName?: string;
+    // Case of a data-driven test the assertion belongs to, e.g. "empty name"
+    case?: string;
+}
+
+// One entry of 4D's Call chain; the first frame is where the error was raised
+export interface CallFrame {
+    // "ClassName.functionName" or a project method name
+    name: string;
+    line?: number;
+    // e.g. "classFunction" or "projectMethod"
+    type?: string;
+}
+
+// A 4D runtime error raised while a test ran
+export interface RuntimeError {
+    code?: number;
+    message: string;
+    callChain?: CallFrame[];
+}
+
+/**
+ * A compiler error or warning, as found in the result of Compile project.
+ *
+ * {"message":"The variable $x is not declared","isError":true,"method":"UserService.create","line":3}
+ */
+export interface CompileError {
+    message: string;
+    // false for warnings
+    isError?: boolean;
+    // "ClassName.functionName" or a project method name
+    method?: string;
+    line?: number;
+}
+
+/**
+ * A lifecycle hook (beforeAll, setup...) that failed. With `test` it affects
+ * that test only, otherwise every test of the class. Affected tests need no
+ * testEnd of their own.
+ *
+ * {"suite":"UserTest","hook":"beforeEach","test":"test_create","message":"Table is locked","line":3}
+ */
+export interface HookError {
+    suite: string;
+    hook: string;
+    test?: string;
+    code?: number;
+    message: string;
+    // Logical line within the hook, as reported by 4D
+    line?: number;
+}
+
+export interface TestResult {
+    suite: string;
+    name: string;
+    passed: boolean;
+    skipped?: boolean;
+    duration?: number;
+    assertionCount?: number;
+    assertions?: AssertionResult[];
+    errors?: RuntimeError[];
+    // What the test logged, shown as its output
+    logs?: string[];
+}
+
+/**
+ * Line hit counts of one class function or project method, reported in coverage
+ * mode. Keys of `lines` are 4D logical line numbers, as in assertion results.
+ *
+ * {"className":"UserService","functionName":"create","lines":{"1":3,"2":0}}
+ * {"methodName":"Util_Format","lines":{"1":1}}
+ */
+export interface CoverageEntry {
+    className?: string;
+    functionName?: string;
+    methodName?: string;
+    lines: Record<string, number>;
+}
+
+// Single JSON object printed by runners that don't stream
+export interface RunResults {
+    testResults?: TestResult[];
+    coverage?: CoverageEntry[];
+    compileErrors?: CompileError[];
+    hookErrors?: HookError[];
+}
+
+/**
+ * Events of the JSON Lines protocol, one object per line:
+ *
+ * {"event":"suiteStart","suite":"UserTest"}
+ * {"event":"testStart","suite":"UserTest","name":"test_create"}
+ * {"event":"assertion","suite":"UserTest","name":"test_create","passed":false,"expected":1,"actual":2,"line":4}
+ * {"event":"testEnd","suite":"UserTest","name":"test_create","passed":false,"duration":12}
+ * {"event":"suiteEnd","suite":"UserTest"}
+ * {"event":"coverage","coverage":[{"className":"User","functionName":"create","lines":{"1":3}}]}
+ * {"event":"compileError","message":"Syntax error","isError":true,"method":"User.create","line":3}
+ * {"event":"hookError","suite":"UserTest","hook":"beforeAll","message":"Table is locked","line":3}
+ * {"event":"log","suite":"UserTest","name":"test_create","message":"Created user 12"}
+ *
+ * Other lines printed between testStart and testEnd are output of that test.
+ */
+export type RunnerEvent =
+    | { event: 'suiteStart'; suite: string }
+    | { event: 'suiteEnd'; suite: string }
+    | { event: 'testStart'; suite: string; name: string }
+    | ({ event: 'assertion'; suite: string; name: string } & AssertionResult)
+    | ({ event: 'testEnd' } & TestResult)
+    | { event: 'coverage'; coverage: CoverageEntry[] }
+    | ({ event: 'compileError' } & CompileError)
+    | ({ event: 'hookError' } & HookError)
+    | { event: 'log'; suite: string; name: string; message: string };
+
+const eventNames = new Set([
+    'suiteStart', 'suiteEnd', 'testStart', 'assertion', 'testEnd', 'coverage', 'compileError', 'hookError', 'log'
+]);
+
+/**
+ * Parses one output line as a protocol event, or returns null for any other text.
+ */
+export function parseRunnerEvent(line: string): RunnerEvent | null {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{') || !trimmed.endsWith('}')) {
+        return null;
+    }
+
+    try {
+        const parsed = JSON.parse(trimmed);
+        if (parsed && typeof parsed.event === 'string' && eventNames.has(parsed.event)) {
+            return parsed as RunnerEvent;
+        }
+    } catch {
+        // Not a complete JSON object, e.g. part of a pretty-printed result
+    }
+    return null;
+}
+
+// e.g. "Error: UserService.create line 3: The variable $x is not declared"
+const compilerLineRe = /^\s*(error|warning)\s*:\s*([\w.]+?)(?:\s*,)?\s+line\s+(\d+)\s*:\s*(.+)$/i;
+
+/**
+ * Parses a compiler message printed as text on stderr, or returns null.
+ */
+export function parseCompilerLine(line: string): CompileError | null {
+    const match = compilerLineRe.exec(line);
+    if (!match) {
+        return null;
+    }
+    return {
+        message: match[4].trim(),
+        isError: match[1].toLowerCase() === 'error',
+        method: match[2],
+        line: Number(match[3])
+    };
+}
+
+/**
+ * Splits a chunked stream into complete lines.
+ */
+export class LineSplitter {
+    private remainder = '';
+
+    constructor(private readonly onLine: (line: string) => void) {}
+
+    push(chunk: string) {
+        const lines = (this.remainder + chunk).split('\n');
+        this.remainder = lines.pop()!;
+        lines.forEach(line => this.onLine(line.replace(/\r$/, '')));
+    }
+
+    end() {
+        if (this.remainder.length > 0) {
+            this.onLine(this.remainder);
+            this.remainder = '';
+        }
+    }
+}
+
+/**
+ * Extracts the single results object from buffered output - first { to last }.
+ * Returns null when the output contains no JSON object.
+ */
+export function extractJsonResults(output: string): RunResults | null {
+    const firstBrace = output.indexOf('{');
+    const lastBrace = output.lastIndexOf('}');
+
+    if (firstBrace === -1 || lastBrace === -1 || firstBrace > lastBrace) {
+        return null;
+    }
+
+    return JSON.parse(output.substring(firstBrace, lastBrace + 1));
+}
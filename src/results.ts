@@ -0,0 +1,584 @@
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { mapFunctionLineToSourceLine } from './parser';
+import { RunDiagnostics } from './diagnostics';
+import {
+    AssertionResult,
+    CompileError,
+    HookError,
+    RunnerEvent,
+    RunResults,
+    RuntimeError,
+    TestResult
+} from './resultStream';
+import { resolveCodeLocation } from './sourceLocation';
+import { caseItemId, ParameterizedCase, testData, trackAssertionSource } from './testTree';
+import { describeStringDifference, formatValue, formatValueInline } from './valueFormat';
+
+export interface TestTarget {
+    suite: string;
+    func: string;
+    item: vscode.TestItem;
+    // Cases selected on their own; undefined runs every case
+    cases?: string[];
+}
+
+// cancelled: the runner was stopped (Stop, a timeout) before the test reported a result
+export type TestStatus = 'passed' | 'failed' | 'errored' | 'skipped' | 'cancelled';
+
+// Final result of one test, as recorded for history and reports
+export interface RecordedTest {
+    item: vscode.TestItem;
+    suite: string;
+    name: string;
+    status: TestStatus;
+    duration?: number;
+    message?: string;
+    assertions: AssertionResult[];
+}
+
+// Everything reported during one test run, across all runner invocations
+export interface TestRunRecord {
+    startedAt: number;
+    finishedAt?: number;
+    // Name of the run configuration, if the run used one
+    configuration?: string;
+    // Results were replayed from saved output, possibly from another machine
+    replayed?: boolean;
+    // Run with a debugger attached, so durations include time spent paused
+    debug?: boolean;
+    tests: RecordedTest[];
+}
+
+// Per-invocation context of a reporter
+export interface ReporterContext {
+    projectRoot: vscode.Uri | undefined;
+    diagnostics: RunDiagnostics;
+    record: TestRunRecord;
+}
+
+interface ActiveTest {
+    target: TestTarget;
+    assertions: AssertionResult[];
+    assertionItems: vscode.TestItem[];
+    // How often each assertion key was seen, for assertions run in a loop
+    assertionKeys: Map<string, number>;
+    cases: Map<string, ActiveCase>;
+}
+
+interface ActiveCase {
+    item: vscode.TestItem;
+    assertions: AssertionResult[];
+    assertionItems: vscode.TestItem[];
+}
+
+/**
+ * Turns runner results into TestRun state changes. Results can arrive one event
+ * at a time (streaming protocol) or as a single object (handleResults).
+ */
+export class TestResultReporter {
+    private readonly active = new Map<string, ActiveTest>();
+    private readonly reported = new Set<vscode.TestItem>();
+    private compileErrorCount = 0;
+
+    constructor(
+        private readonly controller: vscode.TestController,
+        private readonly run: vscode.TestRun,
+        private readonly testTargets: TestTarget[],
+        private readonly context: ReporterContext
+    ) {}
+
+    async handleEvent(event: RunnerEvent) {
+        switch (event.event) {
+            case 'testStart':
+                this.testStarted(event.suite, event.name);
+                break;
+            case 'assertion':
+                await this.assertionReported(event.suite, event.name, event);
+                break;
+            case 'testEnd':
+                await this.testEnded(event);
+                break;
+            case 'compileError':
+                await this.compileErrorReported(event);
+                break;
+            case 'hookError':
+                await this.hookFailed(event);
+                break;
+            case 'log': {
+                const target = this.testTargets.find(t => t.suite === event.suite && t.func === event.name);
+                if (target) {
+                    this.appendTestOutput(target, event.message);
+                }
+                break;
+            }
+        }
+    }
+
+    /**
+     * Number of compiler errors (not warnings) reported so far.
+     */
+    get compileErrors(): number {
+        return this.compileErrorCount;
+    }
+
+    /**
+     * @param echo - Whether to print the error; false when it was read from the runner's stderr
+     */
+    async compileErrorReported(error: CompileError, echo = true) {
+        const isError = error.isError !== false;
+        if (isError) {
+            this.compileErrorCount++;
+        }
+
+        const where = error.method ? `${error.method}${error.line ? ` line ${error.line}` : ''}: ` : '';
+        if (echo) {
+            this.run.appendOutput(`${isError ? 'Compile error' : 'Compile warning'}: ${where}${error.message}\r\n`);
+        }
+
+        const location = error.method && this.context.projectRoot
+            ? await resolveCodeLocation(this.context.projectRoot, error.method, error.line)
+            : undefined;
+        if (location) {
+            this.context.diagnostics.add(
+                location,
+                error.message,
+                isError ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+            );
+        }
+    }
+
+    /**
+     * Marks the tests affected by a failed lifecycle hook as errored, pointing
+     * at the hook's source. Tests that already have a result, e.g. when afterAll
+     * fails, are turned into errors too.
+     */
+    async hookFailed(error: HookError) {
+        const text = `${error.hook} failed: ${error.code !== undefined ? `Error ${error.code}: ` : ''}${error.message}`;
+        this.run.appendOutput(`${error.suite}.${text}\r\n`);
+
+        const location = this.context.projectRoot
+            ? await resolveCodeLocation(this.context.projectRoot, `${error.suite}.${error.hook}`, error.line)
+            : undefined;
+        if (location) {
+            this.context.diagnostics.add(location, `${error.suite}.${text}`, vscode.DiagnosticSeverity.Error);
+        }
+
+        const affected = this.testTargets.filter(t =>
+            t.suite === error.suite && (error.test === undefined || t.func === error.test)
+        );
+        for (const target of affected) {
+            const message = new vscode.TestMessage(text);
+            message.location = location;
+            this.active.delete(`${target.suite}.${target.func}`);
+            this.run.errored(target.item, message);
+
+            const recorded = this.reported.has(target.item)
+                ? this.context.record.tests.find(t => t.item === target.item)
+                : undefined;
+            if (recorded) {
+                recorded.status = 'errored';
+                recorded.message = text;
+            } else {
+                this.reported.add(target.item);
+                this.recordResult(target, 'errored', [], undefined, text);
+            }
+        }
+    }
+
+    /**
+     * Attaches a line of runner output to the test that is running, if exactly
+     * one is.
+     *
+     * @returns false when the line belongs to no test
+     */
+    outputReported(line: string): boolean {
+        if (this.active.size !== 1) {
+            return false;
+        }
+        const [{ target }] = this.active.values();
+        this.appendTestOutput(target, line);
+        return true;
+    }
+
+    private appendTestOutput(target: TestTarget, text: string) {
+        const item = target.item;
+        const location = item.uri && item.range ? new vscode.Location(item.uri, item.range.start) : undefined;
+        this.run.appendOutput(`${text.replace(/\r?\n/g, '\r\n')}\r\n`, location, item);
+    }
+
+    /**
+     * Tests the runner has started but not finished yet.
+     */
+    runningTests(): TestTarget[] {
+        return Array.from(this.active.values(), a => a.target);
+    }
+
+    /**
+     * Marks every target without a reported result as errored, e.g. after the
+     * runner crashed or compilation failed.
+     */
+    errorUnreported(message: string, overrides = new Map<vscode.TestItem, string>()) {
+        this.markUnreported('errored', message, overrides);
+    }
+
+    /**
+     * Marks every target without a reported result as errored after the runner
+     * was cancelled or timed out. They are recorded as cancelled, so stopping a
+     * run doesn't count as a failure in the history.
+     */
+    cancelUnreported(message: string, overrides = new Map<vscode.TestItem, string>()) {
+        this.markUnreported('cancelled', message, overrides);
+    }
+
+    private markUnreported(status: TestStatus, message: string, overrides: Map<vscode.TestItem, string>) {
+        for (const target of this.testTargets) {
+            if (!this.reported.has(target.item)) {
+                const text = overrides.get(target.item) ?? message;
+                this.run.errored(target.item, new vscode.TestMessage(text));
+                this.reported.add(target.item);
+                this.recordResult(target, status, [], undefined, text);
+            }
+        }
+        this.active.clear();
+    }
+
+    async handleResults(results: RunResults) {
+        for (const error of results.compileErrors ?? []) {
+            await this.compileErrorReported(error);
+        }
+
+        if (!results.testResults) {
+            return;
+        }
+
+        for (const testResult of results.testResults) {
+            if (!this.testStarted(testResult.suite, testResult.name)) {
+                continue;
+            }
+            for (const assertion of testResult.assertions ?? []) {
+                await this.assertionReported(testResult.suite, testResult.name, assertion);
+            }
+            await this.testEnded(testResult);
+        }
+
+        for (const error of results.hookErrors ?? []) {
+            await this.hookFailed(error);
+        }
+    }
+
+    private testStarted(suite: string, name: string): ActiveTest | undefined {
+        // Find the TestItem for this test function
+        const target = this.testTargets.find(t => t.suite === suite && t.func === name);
+
+        if (!target) {
+            this.run.appendOutput(`Warning: Could not find TestItem for ${suite}.${name}\n`);
+            return undefined;
+        }
+
+        const active: ActiveTest = {
+            target,
+            assertions: [],
+            assertionItems: [],
+            assertionKeys: new Map(),
+            cases: new Map()
+        };
+        this.active.set(`${suite}.${name}`, active);
+
+        // Clear any existing assertion children from previous runs; declared cases stay
+        target.item.children.replace(this.declaredCaseItems(target.item));
+        this.run.started(target.item);
+        return active;
+    }
+
+    private declaredCaseItems(funcItem: vscode.TestItem): vscode.TestItem[] {
+        const caseItems: vscode.TestItem[] = [];
+        funcItem.children.forEach(child => {
+            const data = testData.get(child);
+            if (data instanceof ParameterizedCase && data.generation !== undefined) {
+                caseItems.push(child);
+            }
+        });
+        return caseItems;
+    }
+
+    // Finds or creates the item of a case the first time one of its assertions is reported
+    private caseStarted(active: ActiveTest, name: string): ActiveCase {
+        let activeCase = active.cases.get(name);
+        if (!activeCase) {
+            const funcItem = active.target.item;
+            const id = caseItemId(funcItem, name);
+            let caseItem = funcItem.children.get(id);
+            if (!caseItem) {
+                caseItem = this.controller.createTestItem(id, name, funcItem.uri);
+                testData.set(caseItem, new ParameterizedCase(name));
+                funcItem.children.add(caseItem);
+            }
+            caseItem.children.replace([]);
+
+            activeCase = { item: caseItem, assertions: [], assertionItems: [] };
+            active.cases.set(name, activeCase);
+            this.run.started(caseItem);
+        }
+        return activeCase;
+    }
+
+    private async assertionReported(suite: string, name: string, assertion: AssertionResult) {
+        const active = this.active.get(`${suite}.${name}`) ?? this.testStarted(suite, name);
+        if (!active) {
+            return;
+        }
+
+        const funcItem = active.target.item;
+        const index = active.assertions.length;
+        active.assertions.push(assertion);
+
+        // Assertions of a data-driven test are listed under their case
+        const activeCase = assertion.case !== undefined ? this.caseStarted(active, assertion.case) : undefined;
+        activeCase?.assertions.push(assertion);
+        const parentItem = activeCase?.item ?? funcItem;
+
+        // Use the assertion message as the label for the test tree
+        let label = assertion.message || `Assertion ${index + 1}`;
+
+        // Truncate if too long
+        if (label.length > 80) {
+            label = label.substring(0, 77) + '...';
+        }
+
+        // Map the line number to get the exact location
+        let sourceLine: number | null = null;
+        if (assertion.line && assertion.functionName && funcItem.uri) {
+            sourceLine = await mapFunctionLineToSourceLine(
+                funcItem.uri,
+                assertion.functionName,
+                assertion.line
+            );
+        }
+        const sourceText = sourceLine !== null && funcItem.uri
+            ? (await this.readSourceLines(funcItem.uri))?.[sourceLine]?.trim()
+            : undefined;
+
+        // Keyed by the assertion's code and message rather than its position, so
+        // adding an assertion doesn't shift the ids of the ones below it
+        const idPrefix = `${parentItem.id}/assertion-${assertionKey(sourceText, assertion.message)}`;
+        const occurrence = (active.assertionKeys.get(idPrefix) ?? 0) + 1;
+        active.assertionKeys.set(idPrefix, occurrence);
+        const assertionId = `${idPrefix}${occurrence > 1 ? `-${occurrence}` : ''}`;
+
+        // Create the assertion test item
+        const assertionItem = this.controller.createTestItem(assertionId, label, funcItem.uri);
+        if (sourceLine !== null) {
+            const position = new vscode.Position(sourceLine, 0);
+            assertionItem.range = new vscode.Range(position, position);
+        }
+        if (sourceText) {
+            trackAssertionSource(assertionItem, sourceText);
+        }
+
+        // Add to the function's (or case's) children
+        (activeCase ?? active).assertionItems.push(assertionItem);
+        parentItem.children.add(assertionItem);
+
+        // Mark the assertion as started
+        this.run.started(assertionItem);
+
+        // Mark as passed or failed
+        if (assertion.passed) {
+            this.run.passed(assertionItem);
+        } else {
+            const message = buildFailureMessage(assertion);
+
+            // Set location if we have it
+            if (assertionItem.range && funcItem.uri) {
+                message.location = new vscode.Location(funcItem.uri, assertionItem.range);
+            }
+
+            this.run.failed(assertionItem, message);
+        }
+    }
+
+    private async testEnded(testResult: TestResult) {
+        const key = `${testResult.suite}.${testResult.name}`;
+        const active = this.active.get(key) ?? this.testStarted(testResult.suite, testResult.name);
+        if (!active) {
+            return;
+        }
+
+        // A streamed testEnd may carry the assertions instead of separate events
+        if (active.assertions.length === 0 && testResult.assertions) {
+            for (const assertion of testResult.assertions) {
+                await this.assertionReported(testResult.suite, testResult.name, assertion);
+            }
+        }
+        this.active.delete(key);
+
+        for (const log of testResult.logs ?? []) {
+            this.appendTestOutput(active.target, log);
+        }
+
+        const funcItem = active.target.item;
+        this.reported.add(funcItem);
+
+        // Replace the function's children with its cases and the new assertion items
+        const caseItems = this.declaredCaseItems(funcItem);
+        for (const activeCase of active.cases.values()) {
+            if (!caseItems.includes(activeCase.item)) {
+                caseItems.push(activeCase.item);
+            }
+            this.caseEnded(activeCase);
+        }
+        funcItem.children.replace([...caseItems, ...active.assertionItems]);
+
+        // Mark the parent function based on overall result
+        const duration = testResult.duration;
+        const { target, assertions } = active;
+
+        if (testResult.errors && testResult.errors.length > 0) {
+            const messages = await Promise.all(
+                testResult.errors.map(error => this.buildRuntimeErrorMessage(funcItem, error))
+            );
+            this.run.errored(funcItem, messages, duration ?? 0);
+            this.recordResult(target, 'errored', assertions, duration, messages.map(m => m.message).join('\n'));
+        } else if (testResult.skipped) {
+            this.run.skipped(funcItem);
+            this.recordResult(target, 'skipped', assertions, duration);
+        } else if (testResult.passed) {
+            this.run.passed(funcItem, duration ?? 0);
+            this.recordResult(target, 'passed', assertions, duration);
+        } else {
+            // Build a summary message for the parent function
+            const failedCount = assertions.filter(a => !a.passed).length;
+            const total = testResult.assertionCount ?? assertions.length;
+            const summaryMessage = `${failedCount} of ${total} assertions failed`;
+
+            this.run.failed(funcItem, new vscode.TestMessage(summaryMessage), duration ?? 0);
+            this.recordResult(target, 'failed', assertions, duration, describeFirstFailure(summaryMessage, assertions));
+        }
+    }
+
+    private caseEnded(activeCase: ActiveCase) {
+        activeCase.item.children.replace(activeCase.assertionItems);
+
+        const failedCount = activeCase.assertions.filter(a => !a.passed).length;
+        if (failedCount === 0) {
+            this.run.passed(activeCase.item);
+        } else {
+            const summary = `${failedCount} of ${activeCase.assertions.length} assertions failed`;
+            this.run.failed(activeCase.item, new vscode.TestMessage(describeFirstFailure(summary, activeCase.assertions)));
+        }
+    }
+
+    // Source lines of the test files, read once per runner invocation
+    private readonly sourceLines = new Map<string, Promise<string[] | undefined>>();
+
+    private readSourceLines(uri: vscode.Uri): Promise<string[] | undefined> {
+        const key = uri.toString();
+        if (!this.sourceLines.has(key)) {
+            this.sourceLines.set(key, Promise.resolve(vscode.workspace.fs.readFile(uri)).then(
+                rawContent => new TextDecoder().decode(rawContent).split('\n'),
+                () => undefined
+            ));
+        }
+        return this.sourceLines.get(key)!;
+    }
+
+    private recordResult(
+        target: TestTarget,
+        status: TestStatus,
+        assertions: AssertionResult[],
+        duration?: number,
+        message?: string
+    ) {
+        this.context.record.tests.push({
+            item: target.item,
+            suite: target.suite,
+            name: target.func,
+            status,
+            duration,
+            message,
+            assertions
+        });
+    }
+
+    /**
+     * Builds an errored message for a 4D runtime error, with the call chain as
+     * stack frames, and publishes it as a diagnostic at the line that raised it.
+     */
+    private async buildRuntimeErrorMessage(funcItem: vscode.TestItem, error: RuntimeError) {
+        const text = error.code !== undefined ? `Error ${error.code}: ${error.message}` : error.message;
+        const message = new vscode.TestMessage(text);
+
+        const frames: vscode.TestMessageStackFrame[] = [];
+        for (const frame of error.callChain ?? []) {
+            const location = this.context.projectRoot
+                ? await resolveCodeLocation(this.context.projectRoot, frame.name, frame.line, frame.type)
+                : undefined;
+            const label = frame.line ? `${frame.name} line ${frame.line}` : frame.name;
+            frames.push(new vscode.TestMessageStackFrame(label, location?.uri, location?.range.start));
+
+            // The innermost frame in this workspace is where the error is shown
+            if (location && !message.location) {
+                message.location = location;
+            }
+        }
+        message.stackTrace = frames;
+
+        if (!message.location && funcItem.uri && funcItem.range) {
+            message.location = new vscode.Location(funcItem.uri, funcItem.range.start);
+        }
+        if (message.location) {
+            this.context.diagnostics.add(message.location, `${funcItem.label}: ${text}`, vscode.DiagnosticSeverity.Error);
+        }
+        return message;
+    }
+}
+
+function assertionKey(sourceText: string | undefined, message: string | undefined): string {
+    return createHash('sha1').update(`${sourceText ?? ''}\n${message ?? ''}`).digest('hex').substring(0, 12);
+}
+
+// One-line failure summary, e.g. for the history of a test
+function describeFirstFailure(summary: string, assertions: AssertionResult[]): string {
+    const failed = assertions.find(a => !a.passed);
+    if (!failed) {
+        return summary;
+    }
+    const values = 'expected' in failed || 'actual' in failed
+        ? ` (expected ${formatValueInline(failed.expected)}, actual ${formatValueInline(failed.actual)})`
+        : '';
+    return `${summary}: ${failed.message ?? 'assertion failed'}${values}`;
+}
+
+/**
+ * Builds the message of a failed assertion. When the runner reported values, it
+ * is a diff message so the expected and actual values can be compared in the peek.
+ */
+function buildFailureMessage(assertion: AssertionResult): vscode.TestMessage {
+    const hasValues = 'expected' in assertion || 'actual' in assertion;
+
+    // Show both expected and actual on first line for inline flag
+    const failureLines: string[] = hasValues
+        ? [`Expected: ${formatValueInline(assertion.expected)}, Actual: ${formatValueInline(assertion.actual)}`]
+        : ['Assertion failed'];
+
+    // Add the original assertion message if available
+    if (assertion.message) {
+        failureLines.push(`\nAssertion: ${assertion.message}`);
+    }
+
+    const stringDifference = describeStringDifference(assertion.expected, assertion.actual);
+    if (stringDifference) {
+        failureLines.push(`\n${stringDifference}`);
+    }
+
+    if (!hasValues) {
+        return new vscode.TestMessage(failureLines.join('\n'));
+    }
+
+    return vscode.TestMessage.diff(
+        failureLines.join('\n'),
+        formatValue(assertion.expected),
+        formatValue(assertion.actual)
+    );
+}
@@ -0,0 +1,246 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const configSection = '4d-testing-extension';
+
+export interface RunnerConfig {
+    command: string;
+    args: string[];
+    cwd: string;
+    env: Record<string, string>;
+    format: string;
+    // Seconds; 0 disables the timeout
+    timeout: number;
+    testTimeout: number;
+    // Whether ${tag} may be a boolean expression rather than a single tag
+    tagExpressions: boolean;
+    // Number of runner processes a project's tests are split across
+    workers: number;
+    // Data file the runner opens, copied per shard when running in parallel
+    dataFile: string;
+    // "process" spawns the runner, "replay" reads its saved output from replayPath
+    backend: 'process' | 'replay';
+    replayPath: string;
+    // Regular expressions for runner output lines that are dropped
+    outputFilters: string[];
+    // Whether ${tests} may name single cases of data-driven tests
+    caseSelection: boolean;
+}
+
+// Values substituted into the runner's argument templates
+export interface RunnerPlaceholders {
+    tests: string;
+    tag: string;
+    format: string;
+    // "true" in coverage runs, empty otherwise
+    coverage: string;
+    workspaceFolder: string;
+    // The 4D project folder (containing Project/Sources) the tests belong to
+    projectFolder: string;
+    // Absolute path of the data file, empty if none is configured
+    dataFile: string;
+    // 1-based shard index in parallel runs, empty otherwise
+    shard: string;
+    // "true" in debug runs, empty otherwise
+    debug: string;
+    // Comma-separated "ClassName.functionName:line" breakpoints of debug runs
+    breakpoints: string;
+    // Set by the run configuration of the profile, empty otherwise
+    configuration: string;
+    tool4d: string;
+    userParameters: string;
+}
+
+/**
+ * A named set of runner overrides from the `runConfigurations` setting, run
+ * through its own profile.
+ */
+export interface RunConfiguration {
+    name: string;
+    dataFile?: string;
+    // Path of the tool4d executable to run the tests with
+    tool4d?: string;
+    // Passed to 4D as user parameters, e.g. read with Get database parameter
+    userParameters?: string;
+    env?: Record<string, string>;
+}
+
+// Noise printed by tool4d on macOS
+const defaultOutputFilters = [
+    '^/Applications/Xcode\\.app',
+    "^tool4d\\.APPL Cooperative process doesn't yield enough"
+];
+
+/**
+ * Reads the runner settings for the given resource, so each workspace folder
+ * can use its own executable, arguments and environment.
+ */
+export function getRunnerConfig(scope?: vscode.Uri): RunnerConfig {
+    const config = vscode.workspace.getConfiguration(`${configSection}.runner`, scope);
+
+    return {
+        command: config.get<string>('command', 'make'),
+        args: config.get<string[]>('args', [
+            'test', 'format=${format}', 'test=${tests}', 'tag=${tag}', 'coverage=${coverage}',
+            'debug=${debug}', 'breakpoints=${breakpoints}',
+            'dataFile=${dataFile}', 'tool4d=${tool4d}', 'userParameters=${userParameters}'
+        ]),
+        cwd: config.get<string>('cwd', '${projectFolder}'),
+        env: config.get<Record<string, string>>('env', {}),
+        format: config.get<string>('format', 'json'),
+        timeout: config.get<number>('timeout', 0),
+        testTimeout: config.get<number>('testTimeout', 0),
+        tagExpressions: config.get<boolean>('tagExpressions', false),
+        workers: Math.max(1, config.get<number>('workers', 1)),
+        dataFile: config.get<string>('dataFile', ''),
+        backend: config.get<'process' | 'replay'>('backend', 'process'),
+        replayPath: config.get<string>('replayPath', ''),
+        outputFilters: config.get<string[]>('outputFilters', defaultOutputFilters),
+        caseSelection: config.get<boolean>('caseSelection', false)
+    };
+}
+
+/**
+ * Reads the run configurations, skipping entries without a name.
+ */
+export function getRunConfigurations(): RunConfiguration[] {
+    return vscode.workspace
+        .getConfiguration(configSection)
+        .get<RunConfiguration[]>('runConfigurations', [])
+        .filter(configuration => typeof configuration?.name === 'string' && configuration.name.trim() !== '');
+}
+
+/**
+ * Applies a run configuration on top of the runner settings: its data file
+ * replaces `runner.dataFile` and its variables are added to `runner.env`.
+ */
+export function applyRunConfiguration(config: RunnerConfig, configuration: RunConfiguration | undefined): RunnerConfig {
+    if (!configuration) {
+        return config;
+    }
+    return {
+        ...config,
+        dataFile: configuration.dataFile ?? config.dataFile,
+        env: { ...config.env, ...configuration.env }
+    };
+}
+
+const placeholderRe = /\$\{(\w+)(?::([^}]*))?\}/g;
+
+/**
+ * Replaces `${name}` placeholders in a template. `${env:NAME}` reads from the
+ * extension host environment. Returns null when the template references a
+ * placeholder that resolved to an empty value.
+ */
+export function resolveTemplate(
+    template: string,
+    placeholders: RunnerPlaceholders
+): string | null {
+    let hasEmpty = false;
+
+    const resolved = template.replace(placeholderRe, (match, name: string, arg?: string) => {
+        let value: string | undefined;
+        if (name === 'env' && arg) {
+            value = process.env[arg];
+        } else if (name in placeholders) {
+            value = placeholders[name as keyof RunnerPlaceholders];
+        } else {
+            return match;
+        }
+
+        if (!value) {
+            hasEmpty = true;
+            return '';
+        }
+        return value;
+    });
+
+    return hasEmpty ? null : resolved;
+}
+
+/**
+ * Builds the runner's argument list. Arguments whose placeholders resolve to
+ * nothing (e.g. `test=${tests}` when running everything) are dropped.
+ */
+export function buildRunnerArgs(config: RunnerConfig, placeholders: RunnerPlaceholders): string[] {
+    const args: string[] = [];
+    for (const template of config.args) {
+        const arg = resolveTemplate(template, placeholders);
+        if (arg !== null) {
+            args.push(arg);
+        }
+    }
+    return args;
+}
+
+export function buildRunnerEnv(
+    config: RunnerConfig,
+    placeholders: RunnerPlaceholders
+): NodeJS.ProcessEnv {
+    const env: NodeJS.ProcessEnv = { ...process.env };
+    for (const [key, template] of Object.entries(config.env)) {
+        env[key] = resolveTemplate(template, placeholders) ?? '';
+    }
+    return env;
+}
+
+export function buildRunnerCwd(config: RunnerConfig, placeholders: RunnerPlaceholders): string {
+    return resolveTemplate(config.cwd, placeholders) || placeholders.projectFolder;
+}
+
+/**
+ * Resolves the configured data file to an absolute path; relative paths are
+ * taken from the project folder.
+ */
+export function buildRunnerDataFile(config: RunnerConfig, placeholders: RunnerPlaceholders): string {
+    return resolveProjectPath(config.dataFile, placeholders);
+}
+
+/**
+ * Resolves the saved output read by the replay backend, like the data file.
+ */
+export function buildReplayPath(config: RunnerConfig, placeholders: RunnerPlaceholders): string {
+    return resolveProjectPath(config.replayPath, placeholders);
+}
+
+/**
+ * Resolves a path template; relative paths are taken from the project folder.
+ * Returns an empty string for an empty template.
+ */
+export function resolveProjectPath(template: string, placeholders: RunnerPlaceholders): string {
+    const resolved = template && resolveTemplate(template, placeholders);
+    return resolved ? path.resolve(placeholders.projectFolder, resolved) : '';
+}
+
+/**
+ * Explains why the runner process could not be started.
+ */
+export function describeSpawnError(config: RunnerConfig, cwd: string, err: NodeJS.ErrnoException): string {
+    // Node reports a missing working folder as a missing command
+    if (err.code === 'ENOENT' && !fs.existsSync(cwd)) {
+        return `Working folder "${cwd}" of the 4D test runner does not exist. ` +
+            `Check the "${configSection}.runner.cwd" setting.`;
+    }
+    if (err.code === 'ENOENT') {
+        return `4D test runner "${config.command}" was not found. ` +
+            `Install it or set "${configSection}.runner.command" to the executable that runs your tests.`;
+    }
+    return `4D test runner "${config.command}" could not be started: ${err.message}. ` +
+        `Check the "${configSection}.runner.command" and "${configSection}.runner.cwd" settings.`;
+}
+
+/**
+ * Explains a runner that exited without printing any JSON results.
+ */
+export function describeMissingResults(
+    config: RunnerConfig,
+    args: string[],
+    exitCode: number | null
+): string {
+    const commandLine = [config.command, ...args].join(' ');
+    const status = exitCode === null ? 'was terminated' : `exited with code ${exitCode}`;
+    return `4D test runner "${commandLine}" ${status} without producing JSON results. ` +
+        `Check that "${configSection}.runner.args" asks for JSON output (format=\${format}) ` +
+        `and see the Test Results output for details.`;
+}
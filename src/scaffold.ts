@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import { ClassFunction, getLifecycleHook, parseClassFile } from './parser';
+import { getProjectRoot } from './testTree';
+
+export interface ScaffoldResult {
+    testUri: vscode.Uri;
+    // Names of the test functions that were added
+    added: string[];
+    // False when the class has no public function to test; no file is created then
+    hasPublicFunctions: boolean;
+}
+
+/**
+ * Whether a file is a class that tests can be generated for: any class in
+ * `Project/Sources/Classes` that isn't itself a test class.
+ */
+export function isProductionClassFile(uri: vscode.Uri): boolean {
+    return uri.path.endsWith('.4dm') && !uri.path.endsWith('Test.4dm') && getProjectRoot(uri) !== undefined;
+}
+
+/**
+ * Functions of a class that get a test: public (not `local`) class functions.
+ */
+export function testableFunctions(content: string, className: string): ClassFunction[] {
+    const model = parseClassFile(content, className);
+    return model.functions.filter(f =>
+        f.kind === 'function' && !f.modifiers.some(m => m.toLowerCase() === 'local')
+    );
+}
+
+/**
+ * Creates `<Class>Test.4dm` next to a class, or extends it, with one
+ * `test_<name>` stub for each public function that has no test yet.
+ *
+ * @param functionName - Only scaffold the test of this function
+ */
+export async function scaffoldTestClass(classUri: vscode.Uri, functionName?: string): Promise<ScaffoldResult> {
+    const className = classUri.path.split('/').pop()!.replace(/\.4dm$/, '');
+    const testUri = vscode.Uri.joinPath(classUri, '..', `${className}Test.4dm`);
+
+    const classContent = await readText(classUri) ?? '';
+    const functions = testableFunctions(classContent, className)
+        .filter(f => functionName === undefined || f.name === functionName);
+    if (functions.length === 0) {
+        return { testUri, added: [], hasPublicFunctions: false };
+    }
+
+    const testContent = await readText(testUri);
+    const existingTests = testContent !== undefined
+        ? parseClassFile(testContent, `${className}Test`).functions
+            .filter(f => f.kind === 'function' && !getLifecycleHook(f))
+            .map(f => f.name.toLowerCase())
+        : [];
+
+    // test_create, test_create_with_empty_name... all cover create
+    const isCovered = (name: string) => existingTests.some(test =>
+        test === `test_${name.toLowerCase()}` || test.startsWith(`test_${name.toLowerCase()}_`)
+    );
+    const uncovered = functions.filter(f => !isCovered(f.name));
+
+    const stubs = uncovered.map(f => buildTestStub(className, f.name)).join('\n');
+    const result: ScaffoldResult = { testUri, added: uncovered.map(f => `test_${f.name}`), hasPublicFunctions: true };
+
+    if (testContent === undefined) {
+        const header = `// ${className}Test.4dm\nClass constructor()\n\t\n`;
+        await vscode.workspace.fs.writeFile(testUri, new TextEncoder().encode(header + (stubs ? '\n' + stubs : '')));
+        return result;
+    }
+
+    if (stubs) {
+        // Edit through the document so unsaved changes in an open editor are kept
+        const document = await vscode.workspace.openTextDocument(testUri);
+        const end = document.lineAt(document.lineCount - 1).range.end;
+        const separator = document.lineAt(document.lineCount - 1).isEmptyOrWhitespace ? '\n' : '\n\n';
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.insert(testUri, end, separator + stubs);
+        await vscode.workspace.applyEdit(edit);
+        await document.save();
+    }
+    return result;
+}
+
+function buildTestStub(className: string, functionName: string): string {
+    return [
+        '// #tags: unit',
+        `Function test_${functionName}($t : cs.Testing)`,
+        `\tvar $subject : cs.${className}`,
+        `\t$subject:=cs.${className}.new()`,
+        '\t',
+        `\t// Call $subject.${functionName}() and check the result with $t.assert`,
+        ''
+    ].join('\n');
+}
+
+async function readText(uri: vscode.Uri): Promise<string | undefined> {
+    try {
+        return new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Offers to generate tests from a class: for the function under the cursor,
+ * and for the whole class.
+ */
+export class ScaffoldCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.RefactorRewrite, vscode.CodeActionKind.Source];
+
+    provideCodeActions(document: vscode.TextDocument, range: vscode.Range): vscode.CodeAction[] {
+        if (!isProductionClassFile(document.uri)) {
+            return [];
+        }
+
+        const className = document.uri.path.split('/').pop()!.replace(/\.4dm$/, '');
+        const actions: vscode.CodeAction[] = [];
+
+        const classFunction = testableFunctions(document.getText(), className)
+            .find(f => f.declaration.contains(range.start));
+        if (classFunction) {
+            const action = new vscode.CodeAction(
+                `Generate test for ${className}.${classFunction.name}`,
+                vscode.CodeActionKind.RefactorRewrite
+            );
+            action.command = {
+                command: '4d-testing-extension.scaffoldTests',
+                title: action.title,
+                arguments: [document.uri, classFunction.name]
+            };
+            actions.push(action);
+        }
+
+        const classAction = new vscode.CodeAction(`Generate tests for ${className}`, vscode.CodeActionKind.Source);
+        classAction.command = {
+            command: '4d-testing-extension.scaffoldTests',
+            title: classAction.title,
+            arguments: [document.uri]
+        };
+        actions.push(classAction);
+
+        return actions;
+    }
+}
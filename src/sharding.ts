@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { TestTarget } from './results';
+
+export type DurationEstimator = (item: vscode.TestItem) => number | undefined;
+
+let estimateDuration: DurationEstimator = () => undefined;
+
+/**
+ * Sets where recorded test durations come from, used to balance shards.
+ */
+export function setDurationEstimator(estimator: DurationEstimator) {
+    estimateDuration = estimator;
+}
+
+/**
+ * Splits tests into at most `workers` shards. Test classes are kept together
+ * and handed out longest first to the shard with the least work so far, using
+ * recorded durations where they exist.
+ */
+export function splitIntoShards(targets: TestTarget[], workers: number): TestTarget[][] {
+    const suites = new Map<string, TestTarget[]>();
+    for (const target of targets) {
+        if (!suites.has(target.suite)) {
+            suites.set(target.suite, []);
+        }
+        suites.get(target.suite)!.push(target);
+    }
+
+    const shardCount = Math.max(1, Math.min(Math.floor(workers), suites.size));
+    if (shardCount === 1) {
+        return [targets];
+    }
+
+    // Tests without a recorded duration count as an average test
+    const known = targets.map(t => estimateDuration(t.item)).filter((d): d is number => d !== undefined);
+    const fallback = known.length > 0 ? known.reduce((a, b) => a + b, 0) / known.length : 1;
+
+    const weighted = Array.from(suites.values(), suiteTargets => ({
+        targets: suiteTargets,
+        weight: suiteTargets.reduce((sum, t) => sum + (estimateDuration(t.item) ?? fallback), 0)
+    })).sort((a, b) => b.weight - a.weight);
+
+    const shards = Array.from({ length: shardCount }, () => ({ targets: [] as TestTarget[], weight: 0 }));
+    for (const suite of weighted) {
+        const lightest = shards.reduce((min, shard) => shard.weight < min.weight ? shard : min);
+        lightest.targets.push(...suite.targets);
+        lightest.weight += suite.weight;
+    }
+    return shards.map(shard => shard.targets);
+}
+
+/**
+ * Copies a data file, together with the files 4D keeps next to it (index,
+ * journal...), into a temporary folder for one shard.
+ *
+ * @returns Path of the copy and a function that deletes it
+ */
+export async function copyDataFileForShard(
+    dataFile: string,
+    shard: number
+): Promise<{ dataFile: string; dispose: () => Promise<void> }> {
+    const folder = await fs.mkdtemp(path.join(os.tmpdir(), `4d-tests-shard${shard}-`));
+    const baseName = path.basename(dataFile, path.extname(dataFile));
+    const sourceFolder = path.dirname(dataFile);
+
+    for (const entry of await fs.readdir(sourceFolder)) {
+        if (path.basename(entry, path.extname(entry)) === baseName) {
+            await fs.cp(path.join(sourceFolder, entry), path.join(folder, entry), { recursive: true });
+        }
+    }
+
+    return {
+        dataFile: path.join(folder, path.basename(dataFile)),
+        dispose: () => fs.rm(folder, { recursive: true, force: true })
+    };
+}
@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+import { findClassFunction, mapLogicalLine, parseClassFile } from './parser';
+
+export function classFileUri(projectRoot: vscode.Uri, className: string): vscode.Uri {
+    return vscode.Uri.joinPath(projectRoot, 'Project', 'Sources', 'Classes', `${className}.4dm`);
+}
+
+export function methodFileUri(projectRoot: vscode.Uri, methodName: string): vscode.Uri {
+    return vscode.Uri.joinPath(projectRoot, 'Project', 'Sources', 'Methods', `${methodName}.4dm`);
+}
+
+/**
+ * Resolves code reported by 4D to a location in the project's sources.
+ *
+ * @param projectRoot - The 4D project folder
+ * @param name - "ClassName.functionName" for class functions, otherwise a project method name
+ * @param line - Logical line as reported by 4D (1-based, relative to the function); omit
+ *               for the declaration itself
+ * @param type - Call chain type, e.g. "classFunction" or "projectMethod", when known
+ * @returns The location, or undefined if the source file or function doesn't exist
+ */
+export async function resolveCodeLocation(
+    projectRoot: vscode.Uri,
+    name: string,
+    line?: number,
+    type?: string
+): Promise<vscode.Location | undefined> {
+    const dot = name.indexOf('.');
+    const isClassFunction = type ? type !== 'projectMethod' && dot > 0 : dot > 0;
+
+    try {
+        const uri = isClassFunction
+            ? classFileUri(projectRoot, name.substring(0, dot))
+            : methodFileUri(projectRoot, name);
+
+        const rawContent = await vscode.workspace.fs.readFile(uri);
+        const content = new TextDecoder().decode(rawContent);
+        const lines = content.split('\n');
+
+        // Project methods have no declaration, so counting starts at the top
+        let startLine = -1;
+        if (isClassFunction) {
+            const model = parseClassFile(content, name.substring(0, dot));
+            const classFunction = findClassFunction(model, name.substring(dot + 1));
+            if (!classFunction) {
+                return undefined;
+            }
+            if (!line) {
+                return new vscode.Location(uri, classFunction.declaration);
+            }
+            startLine = classFunction.declaration.end.line;
+        } else if (!line) {
+            return new vscode.Location(uri, new vscode.Position(0, 0));
+        }
+
+        const sourceLine = mapLogicalLine(lines, startLine, line!);
+        if (sourceLine === null) {
+            return undefined;
+        }
+        return new vscode.Location(uri, new vscode.Range(
+            sourceLine, lines[sourceLine].length - lines[sourceLine].trimStart().length,
+            sourceLine, lines[sourceLine].trimEnd().length
+        ));
+    } catch {
+        // The code lives in a component or a file outside this workspace
+        return undefined;
+    }
+}
@@ -1,48 +1,143 @@
 import * as vscode from 'vscode';
-import { spawn } from 'child_process';
-import { mapFunctionLineToSourceLine } from './parser';
+import { ChildProcess, spawn } from 'child_process';
+import { CoverageCollector } from './coverage';
+import { collectBreakpoints, startDebugSession } from './debugSession';
+import { RunDiagnostics } from './diagnostics';
+import { killProcessTree, onProcessTreeExit, processTreeSpawnOptions } from './processTree';
+import {
+    CompileError,
+    CoverageEntry,
+    extractJsonResults,
+    LineSplitter,
+    parseCompilerLine,
+    parseRunnerEvent,
+    RunnerEvent,
+    RunResults
+} from './resultStream';
+import { TestResultReporter, TestRunRecord, TestTarget } from './results';
+import { replayRunnerOutput } from './replay';
+import { copyDataFileForShard, splitIntoShards } from './sharding';
+import { classFileUri, methodFileUri } from './sourceLocation';
+import { getProjectRoot, LifecycleHook, ParameterizedCase, TestHeading, testData } from './testTree';
+import {
+    applyRunConfiguration,
+    buildReplayPath,
+    buildRunnerArgs,
+    buildRunnerCwd,
+    buildRunnerDataFile,
+    buildRunnerEnv,
+    configSection,
+    describeMissingResults,
+    describeSpawnError,
+    getRunnerConfig,
+    resolveProjectPath,
+    RunConfiguration,
+    RunnerPlaceholders
+} from './runnerConfig';
+
+const finishedRuns = new vscode.EventEmitter<TestRunRecord>();
+
+/**
+ * Fires with the results of every test run once it has ended.
+ */
+export const onDidFinishTestRun = finishedRuns.event;
+
+export interface TestRunOptions {
+    // Tag of a tag profile, passed to the runner instead of the test list
+    tag?: string;
+    // Expression of a tag expression profile, passed on if the runner supports it
+    tagExpression?: string;
+    // Saved runner output to report instead of running the tests
+    replayFrom?: vscode.Uri;
+    // Run the selected tests in debug mode with the configured debugger attached
+    debug?: boolean;
+    // Run configuration of the profile the run was started from
+    runConfiguration?: RunConfiguration;
+}
 
 export async function startTestRun(
     controller: vscode.TestController,
     request: vscode.TestRunRequest,
-    token: vscode.CancellationToken
+    token: vscode.CancellationToken,
+    options: TestRunOptions = {}
 ) {
     const run = controller.createTestRun(request);
+    const record: TestRunRecord = {
+        startedAt: Date.now(),
+        configuration: options.runConfiguration?.name,
+        debug: options.debug,
+        tests: []
+    };
+    if (options.runConfiguration) {
+        run.appendOutput(`Run configuration: ${options.runConfiguration.name}\r\n`);
+    }
+
+    // Runs started from commands have no profile token; Stop then cancels run.token
+    const cancellation = new vscode.CancellationTokenSource();
+    const cancelListeners = [token, run.token].map(t =>
+        t.onCancellationRequested(() => cancellation.cancel())
+    );
+    if (token.isCancellationRequested) {
+        cancellation.cancel();
+    }
+    token = cancellation.token;
 
     const queue: vscode.TestItem[] = [];
     const isRunningAllTests = !request.include;
 
+    // Cases selected without their test, by test function
+    const selectedCases = new Map<vscode.TestItem, string[]>();
+
     if (request.include) {
         for (const test of request.include) {
-            // Climb up until the parent is a direct child of the root (file)
+            // Climb up from assertion items to the test function (or case) they belong to
             let current: vscode.TestItem = test;
-            while (current.parent && current.parent.parent) {
+            while (current.parent && !testData.has(current)) {
                 current = current.parent;
             }
+
+            const data = testData.get(current);
+            // A hook only runs with the tests of its class
+            if (data instanceof LifecycleHook && current.parent) {
+                queue.push(current.parent);
+                continue;
+            }
+            if (data instanceof ParameterizedCase && current.parent) {
+                const cases = selectedCases.get(current.parent) ?? [];
+                selectedCases.set(current.parent, [...cases, data.name]);
+                queue.push(current.parent);
+                continue;
+            }
             queue.push(current);
         }
+
+        // A test selected as a whole runs all of its cases
+        request.include.forEach(test => selectedCases.delete(test));
     } else {
         controller.items.forEach(test => queue.push(test));
     }
 
-    const workspaceFolder =
-        vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? process.cwd();
-
     // Collect class + function combos to run
-    const testTargets: { suite: string; func: string; item: vscode.TestItem }[] = [];
+    const testTargets: TestTarget[] = [];
+    const queued = new Set<vscode.TestItem>();
 
     while (queue.length > 0 && !token.isCancellationRequested) {
         const test = queue.pop()!;
+        if (queued.has(test)) {
+            continue;
+        }
+        queued.add(test);
 
         // If this is a test function (starts with test_), track it
-        if (test.label?.startsWith('test_')) {
+        if (test.label?.startsWith('test_') && testData.get(test) instanceof TestHeading) {
             run.started(test);
 
             const fileName = test.uri?.path.split('/').pop() ?? '';
             const suite = fileName.replace(/\.4dm$/, '');
             const func = test.label;
 
-            testTargets.push({ suite, func, item: test });
+            testTargets.push({ suite, func, item: test, cases: selectedCases.get(test) });
+            continue;
         }
 
         // Recursively process children
@@ -51,191 +146,538 @@ export async function startTestRun(
         });
     }
 
-    if (testTargets.length > 0) {
-        // Deduplicate by suite+func
-        const uniqueTargets = Array.from(
-            new Set(testTargets.map(t => `${t.suite}.${t.func}`))
-        );
+    // One runner invocation per 4D project, all reporting into the same run
+    const projects = new Map<string, { root: vscode.Uri | undefined; targets: TestTarget[] }>();
+    for (const target of testTargets) {
+        const root = target.item.uri && getProjectRoot(target.item.uri);
+        const key = root?.toString() ?? '';
+        if (!projects.has(key)) {
+            projects.set(key, { root, targets: [] });
+        }
+        projects.get(key)!.targets.push(target);
+    }
 
-        const cmdArgs = ['test', 'format=json'];
+    const diagnostics = new RunDiagnostics();
+    const coverage = request.profile?.kind === vscode.TestRunProfileKind.Coverage
+        ? new CoverageCollector()
+        : undefined;
+
+    try {
+        for (const project of projects.values()) {
+            const firstUri = project.targets[0].item.uri;
+            const workers = getRunnerConfig(
+                project.root ?? (firstUri && vscode.workspace.getWorkspaceFolder(firstUri)?.uri)
+            ).workers;
+            // Replayed output already holds every result, and a debugger attaches to one runner
+            const shards = options.replayFrom || options.debug
+                ? [project.targets]
+                : splitIntoShards(project.targets, workers);
+
+            if (shards.length === 1) {
+                await runProjectTests(controller, run, token, project.root, project.targets, {
+                    ...options,
+                    runAll: isRunningAllTests,
+                    coverage,
+                    diagnostics,
+                    record
+                });
+                continue;
+            }
 
-        // If profile has tag, include tag param
-        const profileTag = (request.profile?.label?.match(/Run '(.+)' tests/) || [])[1];
-        if (profileTag) {
-            cmdArgs.push(`tag=${profileTag}`);
-        } else if (!isRunningAllTests) {
-            // Only specify tests if not running all tests
-            cmdArgs.push(`test=${uniqueTargets.join(',')}`);
+            // Shards always get an explicit test list, and each one only fails its own tests
+            const settled = await Promise.allSettled(shards.map((targets, index) =>
+                runProjectTests(controller, run, token, project.root, targets, {
+                    runConfiguration: options.runConfiguration,
+                    runAll: false,
+                    shard: index + 1,
+                    coverage,
+                    diagnostics,
+                    record
+                })
+            ));
+
+            settled.forEach((result, index) => {
+                if (result.status === 'fulfilled') {
+                    return;
+                }
+                const message = `Shard ${index + 1} failed: ${result.reason?.message ?? result.reason}`;
+                run.appendOutput(`[shard ${index + 1}] ${message}\r\n`);
+
+                const reported = new Set(record.tests.map(test => test.item));
+                const unreported = shards[index].filter(target => !reported.has(target.item));
+                new TestResultReporter(controller, run, unreported, { projectRoot: project.root, diagnostics, record })
+                    .errorUnreported(message);
+            });
         }
+    } finally {
+        // Always end the run, or the Test Explorer shows it running forever
+        await coverage?.publish(run);
+        diagnostics.publish(Array.from(projects.values(), p => p.root).filter(root => root !== undefined));
+        run.end();
 
-        run.appendOutput(`Spawning: make ${cmdArgs.join(' ')}\n`);
+        cancelListeners.forEach(listener => listener.dispose());
+        cancellation.dispose();
 
-        await new Promise<void>(resolve => {
-            const makeProcess = spawn('make', cmdArgs, { cwd: workspaceFolder });
+        record.finishedAt = Date.now();
+        finishedRuns.fire(record);
+    }
+}
 
-            let output = '';
+interface ProjectRunOptions extends TestRunOptions {
+    runAll: boolean;
+    // Set when the run was started from the coverage profile
+    coverage?: CoverageCollector;
+    diagnostics: RunDiagnostics;
+    record: TestRunRecord;
+    // 1-based index when the project's tests are split across several runners
+    shard?: number;
+}
 
-            makeProcess.stdout?.on('data', (data: Buffer) => {
-                const lines = data.toString().split('\n');
-                lines.forEach(line => {
-                    if (
-                        line.startsWith('/Applications/Xcode.app') ||
-                        line.startsWith("tool4d.APPL Cooperative process doesn't yield enough")
-                    ) {
-                        return;
-                    }
-                    output += line + '\n';
-                });
-            });
+/**
+ * Runs the given tests of one 4D project in a single runner process.
+ */
+async function runProjectTests(
+    controller: vscode.TestController,
+    run: vscode.TestRun,
+    token: vscode.CancellationToken,
+    projectRoot: vscode.Uri | undefined,
+    testTargets: TestTarget[],
+    options: ProjectRunOptions
+) {
+    const firstUri = testTargets[0].item.uri;
+    const folder =
+        (firstUri && vscode.workspace.getWorkspaceFolder(firstUri)) ||
+        vscode.workspace.workspaceFolders?.[0];
+    const workspaceFolder = folder?.uri.fsPath ?? process.cwd();
+    const config = applyRunConfiguration(getRunnerConfig(projectRoot ?? folder?.uri), options.runConfiguration);
+
+    // Deduplicate by suite+func; runners that can run single cases get "Suite.test_name[case]"
+    const uniqueTargets = Array.from(
+        new Set(testTargets.flatMap(t =>
+            t.cases && config.caseSelection
+                ? t.cases.map(c => `${t.suite}.${t.func}[${c}]`)
+                : [`${t.suite}.${t.func}`]
+        ))
+    );
+
+    // Runners that understand tag expressions select the tests themselves,
+    // others get the list of tests matched in the tree. Debug runs always
+    // name their tests, so the runner stops exactly where expected.
+    const runnerTag = options.debug
+        ? undefined
+        : options.tag ?? (config.tagExpressions ? options.tagExpression : undefined);
+
+    const placeholders: RunnerPlaceholders = {
+        // Only specify tests if not running all tests or a tag
+        tests: runnerTag || (options.runAll && !options.debug) ? '' : uniqueTargets.join(','),
+        tag: runnerTag ?? '',
+        format: config.format,
+        coverage: options.coverage ? 'true' : '',
+        workspaceFolder,
+        projectFolder: projectRoot?.fsPath ?? workspaceFolder,
+        dataFile: '',
+        shard: options.shard ? String(options.shard) : '',
+        debug: options.debug ? 'true' : '',
+        breakpoints: options.debug && projectRoot ? (await collectBreakpoints(projectRoot)).join(',') : '',
+        configuration: options.runConfiguration?.name ?? '',
+        tool4d: '',
+        userParameters: options.runConfiguration?.userParameters ?? ''
+    };
+    placeholders.dataFile = buildRunnerDataFile(config, placeholders);
+    placeholders.tool4d = resolveProjectPath(options.runConfiguration?.tool4d ?? '', placeholders);
+
+    // Prefixes output lines so interleaved shards can be told apart
+    const label = options.shard ? `[shard ${options.shard}] ` : '';
+
+    const reporter = new TestResultReporter(controller, run, testTargets, {
+        projectRoot,
+        diagnostics: options.diagnostics,
+        record: options.record
+    });
+
+    const compileFailure = () =>
+        `4D compilation failed with ${reporter.compileErrors} error(s), so this test did not run. ` +
+        `See the Problems panel for details.`;
+
+    const addCoverage = async (entries: CoverageEntry[]) => {
+        const coverageRoot = projectRoot ?? folder?.uri;
+        if (options.coverage && coverageRoot) {
+            await options.coverage.add(entries, coverageRoot);
+        }
+    };
+
+    const handleEvent = async (event: RunnerEvent) => {
+        if (event.event === 'coverage') {
+            await addCoverage(event.coverage);
+        } else {
+            await reporter.handleEvent(event);
+        }
+    };
 
-            makeProcess.stderr?.on('data', (data: Buffer) => {
-                run.appendOutput(data.toString());
+    const handleResults = async (results: RunResults) => {
+        await reporter.handleResults(results);
+        if (results.coverage) {
+            await addCoverage(results.coverage);
+        }
+    };
+
+    const failAll = (message: string) => {
+        run.appendOutput(`${label}${message}\n`);
+        vscode.window.showErrorMessage(message);
+        reporter.errorUnreported(message);
+    };
+
+    const replayPath = options.replayFrom?.fsPath ??
+        (config.backend === 'replay' ? buildReplayPath(config, placeholders) : undefined);
+    if (replayPath !== undefined) {
+        options.record.replayed = true;
+        await replayProjectTests(run, projectRoot, testTargets, replayPath, reporter, handleEvent, handleResults, failAll);
+        return;
+    }
+
+    // Shards running at the same time each write to their own copy of the data file
+    let dataFileCopy: { dataFile: string; dispose: () => Promise<void> } | undefined;
+    if (options.shard && placeholders.dataFile && !token.isCancellationRequested) {
+        try {
+            dataFileCopy = await copyDataFileForShard(placeholders.dataFile, options.shard);
+            placeholders.dataFile = dataFileCopy.dataFile;
+        } catch (err: any) {
+            failAll(`Could not copy data file "${placeholders.dataFile}" for shard ${options.shard}: ${err.message}`);
+            return;
+        }
+    }
+
+    const cmdArgs = buildRunnerArgs(config, placeholders);
+    const cwd = buildRunnerCwd(config, placeholders);
+
+    const outputFilters: RegExp[] = [];
+    for (const pattern of config.outputFilters) {
+        try {
+            outputFilters.push(new RegExp(pattern));
+        } catch (err: any) {
+            run.appendOutput(`${label}Ignoring invalid output filter ${JSON.stringify(pattern)}: ${err.message}\n`);
+        }
+    }
+
+    run.appendOutput(`${label}Spawning: ${config.command} ${cmdArgs.join(' ')}\n`);
+
+    await new Promise<void>(resolve => {
+        if (token.isCancellationRequested) {
+            reporter.cancelUnreported('Test run was cancelled before the runner started');
+            resolve();
+            return;
+        }
+
+        // spawn throws for some invalid settings, e.g. an empty command
+        let makeProcess: ChildProcess;
+        try {
+            makeProcess = spawn(config.command, cmdArgs, {
+                cwd,
+                env: buildRunnerEnv(config, placeholders),
+                ...processTreeSpawnOptions()
             });
+        } catch (err: any) {
+            failAll(describeSpawnError(config, cwd, err));
+            resolve();
+            return;
+        }
 
-            makeProcess.on('close', async () => {
-                try {
-                    if (output.trim().length > 0) {
-                        // Extract JSON from output - find first { and last }
-                        const firstBrace = output.indexOf('{');
-                        const lastBrace = output.lastIndexOf('}');
-
-                        if (firstBrace === -1 || lastBrace === -1 || firstBrace > lastBrace) {
-                            run.appendOutput(`Could not find valid JSON in output\n`);
-                            resolve();
-                            return;
-                        }
+        // Why the runner was stopped, and which tests to blame for it
+        let stopReason: string | undefined;
+        const stopMessages = new Map<vscode.TestItem, string>();
+
+        const stop = (reason: string) => {
+            if (stopReason === undefined) {
+                stopReason = reason;
+                run.appendOutput(`${label}${reason}\n`);
+                killProcessTree(makeProcess);
+            }
+        };
+
+        const cancellation = token.onCancellationRequested(() => stop('Test run was cancelled'));
 
-                        const jsonStr = output.substring(firstBrace, lastBrace + 1);
-                        const results = JSON.parse(jsonStr);
+        // Timeouts don't apply while someone may be stepping through the code
+        const runTimer = config.timeout > 0 && !options.debug
+            ? setTimeout(() => stop(`Test run timed out after ${config.timeout}s`), config.timeout * 1000)
+            : undefined;
 
-                        // Pretty JSON, fixed header
-                        const pretty = JSON.stringify(results, null, 2);
-                        const prettyOutput = `\n=== Test Results (JSON) ===\n${pretty}\n`;
-                        const normalized = prettyOutput.replace(/^/gm, '\r');
+        // Per-test timers, started by testStart events and cleared by testEnd
+        const testTimers = new Map<string, NodeJS.Timeout>();
+
+        const trackTestTimeout = (event: RunnerEvent) => {
+            if (config.testTimeout <= 0 || options.debug || (event.event !== 'testStart' && event.event !== 'testEnd')) {
+                return;
+            }
 
-                        run.appendOutput("\n" + normalized + "\n");
+            const key = `${event.suite}.${event.name}`;
+            clearTimeout(testTimers.get(key));
+            testTimers.delete(key);
 
-                        await handleResults(results, run, testTargets, controller);
+            if (event.event === 'testStart') {
+                testTimers.set(key, setTimeout(() => {
+                    const message = `${key} timed out after ${config.testTimeout}s`;
+                    const target = testTargets.find(t => t.suite === event.suite && t.func === event.name);
+                    if (target) {
+                        stopMessages.set(target.item, message);
                     }
-                } catch (err: any) {
-                    run.appendOutput(`Error parsing JSON: ${err.message}\n`);
-                    run.appendOutput(`Output was:\n${output}\n`);
+                    stop(`Test run stopped because ${message}`);
+                }, config.testTimeout * 1000));
+            }
+        };
+
+        // Debug runs attach the configured debugger once the runner has started
+        let finished = false;
+        let debugSession: vscode.DebugSession | undefined;
+        let debugSessionEnded: vscode.Disposable | undefined;
+
+        if (options.debug) {
+            startDebugSession(folder, placeholders, run).then(session => {
+                if (typeof session === 'string') {
+                    run.appendOutput(`${session}\n`);
+                    vscode.window.showErrorMessage(session);
+                    stop('Test run stopped because the debugger could not be attached');
+                } else if (finished) {
+                    vscode.debug.stopDebugging(session);
+                } else {
+                    debugSession = session;
+                    debugSessionEnded = vscode.debug.onDidTerminateDebugSession(ended => {
+                        if (ended === session) {
+                            debugSession = undefined;
+                            stop('Test run stopped because the debug session ended');
+                        }
+                    });
                 }
-                resolve();
+            }).catch(err => {
+                run.appendOutput(`Could not start the debugger: ${err.message}\n`);
+                vscode.window.showErrorMessage(`Could not start the debugger: ${err.message}`);
+                stop('Test run stopped because the debugger could not be attached');
             });
-        });
-    }
+        }
 
-    run.end();
-}
+        const cleanUp = () => {
+            finished = true;
+            cancellation.dispose();
+            clearTimeout(runTimer);
+            testTimers.forEach(timer => clearTimeout(timer));
+            debugSessionEnded?.dispose();
+            if (debugSession) {
+                vscode.debug.stopDebugging(debugSession);
+            }
+        };
 
-async function handleResults(
-    results: any,
-    run: vscode.TestRun,
-    testTargets: { suite: string; func: string; item: vscode.TestItem }[],
-    controller: vscode.TestController
-) {
-    if (!results.testResults) return;
+        // Non-event lines, kept for the single-object fallback
+        let output = '';
+        let streamed = false;
 
-    for (const testResult of results.testResults) {
-        // Find the TestItem for this test function
-        const target = testTargets.find(
-            t => t.suite === testResult.suite && t.func === testResult.name
-        );
+        // Events are handled in arrival order even though mapping lines is async
+        let processing = Promise.resolve();
 
-        if (!target) {
-            run.appendOutput(
-                `Warning: Could not find TestItem for ${testResult.suite}.${testResult.name}\n`
-            );
-            continue;
-        }
+        const stdout = new LineSplitter(line => {
+            if (outputFilters.some(filter => filter.test(line))) {
+                return;
+            }
 
-        const funcItem = target.item;
+            const event = parseRunnerEvent(line);
+            if (event) {
+                streamed = true;
+                trackTestTimeout(event);
+                processing = processing
+                    .then(() => handleEvent(event))
+                    .catch(err => run.appendOutput(`Error handling ${event.event} event: ${err.message}\n`));
+                return;
+            }
 
-        // Clear any existing assertion children from previous runs
-        const assertionItems: vscode.TestItem[] = [];
+            // Lines printed while a test runs are its output; queued so they follow its testStart
+            processing = processing.then(() => {
+                if (!reporter.outputReported(line)) {
+                    output += line + '\n';
+                }
+            });
+        });
 
-        // Create a TestItem for each assertion
-        if (testResult.assertions && testResult.assertions.length > 0) {
-            for (let index = 0; index < testResult.assertions.length; index++) {
-                const assertion = testResult.assertions[index];
+        makeProcess.stdout?.on('data', (data: Buffer) => {
+            stdout.push(data.toString());
+        });
 
-                // Use the assertion message as the label for the test tree
-                let label = assertion.message || `Assertion ${index + 1}`;
+        // Compiler messages printed as text are reported like streamed compileError events
+        const stderr = new LineSplitter(line => {
+            const compileError = parseCompilerLine(line);
+            if (compileError) {
+                processing = processing.then(() => reporter.compileErrorReported(compileError, false));
+            }
+        });
 
-                // Truncate if too long
-                if (label.length > 80) {
-                    label = label.substring(0, 77) + '...';
-                }
+        makeProcess.stderr?.on('data', (data: Buffer) => {
+            run.appendOutput(data.toString());
+            stderr.push(data.toString());
+        });
 
-                // Create the assertion test item
-                const assertionId = `${funcItem.id}/assertion-${index}`;
-                const assertionItem = controller.createTestItem(assertionId, label, funcItem.uri);
+        let spawnFailed = false;
 
-                // Map the line number to get the exact location
-                if (assertion.line && assertion.functionName && funcItem.uri) {
-                    const sourceLine = await mapFunctionLineToSourceLine(
-                        funcItem.uri,
-                        assertion.functionName,
-                        assertion.line
-                    );
+        makeProcess.on('error', (err: NodeJS.ErrnoException) => {
+            spawnFailed = true;
+            cleanUp();
+            failAll(describeSpawnError(config, cwd, err));
+            resolve();
+        });
+
+        onProcessTreeExit(makeProcess, async exitCode => {
+            if (spawnFailed) {
+                return;
+            }
 
-                    if (sourceLine !== null) {
-                        const position = new vscode.Position(sourceLine, 0);
-                        const range = new vscode.Range(position, position);
-                        assertionItem.range = range;
+            cleanUp();
+            stdout.end();
+            stderr.end();
+            await processing;
+
+            if (stopReason !== undefined) {
+                // Keep whatever was reported before the runner was stopped
+                if (!streamed) {
+                    const results = safeExtractJsonResults(output);
+                    if (results) {
+                        await handleResults(results);
                     }
                 }
+                reporter.cancelUnreported(stopReason, stopMessages);
+                resolve();
+                return;
+            }
 
-                // Add to the function's children
-                assertionItems.push(assertionItem);
+            if (streamed) {
+                if (reporter.compileErrors > 0) {
+                    reporter.errorUnreported(compileFailure());
+                } else if (exitCode !== 0) {
+                    reporter.errorUnreported(
+                        `4D test runner exited with code ${exitCode} before reporting a result for this test`
+                    );
+                }
+                resolve();
+                return;
+            }
 
-                // Mark the assertion as started
-                run.started(assertionItem);
+            try {
+                const results = extractJsonResults(output);
 
-                // Mark as passed or failed
-                if (assertion.passed) {
-                    run.passed(assertionItem);
-                } else {
-                    // Build detailed failure message for this assertion
-                    // Show both expected and actual on first line for inline flag
-                    const expectedStr = JSON.stringify(assertion.expected);
-                    const actualStr = JSON.stringify(assertion.actual);
-                    const failureLines: string[] = [
-                        `Expected: ${expectedStr}, Actual: ${actualStr}`
-                    ];
-
-                    // Add the original assertion message if available
-                    if (assertion.message) {
-                        failureLines.push(`\nAssertion: ${assertion.message}`);
+                if (!results) {
+                    if (reporter.compileErrors > 0) {
+                        reporter.errorUnreported(compileFailure());
+                    } else if (exitCode !== 0) {
+                        failAll(describeMissingResults(config, cmdArgs, exitCode));
+                    } else {
+                        run.appendOutput(`${label}Could not find valid JSON in output\n`);
                     }
+                } else {
+                    // Pretty JSON, fixed header
+                    const pretty = JSON.stringify(results, null, 2);
+                    const prettyOutput = `\n=== Test Results (JSON) ===\n${pretty}\n`;
+                    const normalized = prettyOutput.replace(/^/gm, '\r');
 
-                    const message = new vscode.TestMessage(failureLines.join('\n'));
+                    run.appendOutput("\n" + normalized + "\n");
 
-                    // Set location if we have it
-                    if (assertionItem.range && funcItem.uri) {
-                        message.location = new vscode.Location(funcItem.uri, assertionItem.range);
+                    await handleResults(results);
+                    if (reporter.compileErrors > 0) {
+                        reporter.errorUnreported(compileFailure());
                     }
-
-                    run.failed(assertionItem, message);
                 }
+            } catch (err: any) {
+                run.appendOutput(`Error parsing JSON: ${err.message}\n`);
+                run.appendOutput(`Output was:\n${output}\n`);
             }
-        }
+            resolve();
+        });
+    });
 
-        // Replace the function's children with the new assertion items
-        funcItem.children.replace(assertionItems);
+    await dataFileCopy?.dispose().catch(() => undefined);
+}
 
-        // Mark the parent function based on overall result
-        if (testResult.skipped) {
-            run.skipped(funcItem);
-        } else if (testResult.passed) {
-            run.passed(funcItem, testResult.duration ?? 0);
-        } else {
-            // Build a summary message for the parent function
-            const failedCount = testResult.assertions.filter((a: any) => !a.passed).length;
-            const summaryMessage = `${failedCount} of ${testResult.assertionCount} assertions failed`;
+/**
+ * Reports saved runner output for the given tests instead of spawning the runner.
+ */
+async function replayProjectTests(
+    run: vscode.TestRun,
+    projectRoot: vscode.Uri | undefined,
+    testTargets: TestTarget[],
+    replayPath: string,
+    reporter: TestResultReporter,
+    handleEvent: (event: RunnerEvent) => Promise<void>,
+    handleResults: (results: RunResults) => Promise<void>,
+    failAll: (message: string) => void
+) {
+    if (!replayPath) {
+        failAll(`Set "${configSection}.runner.replayPath" to the saved runner output the replay backend reads.`);
+        return;
+    }
+
+    // Saved output may cover other projects; only this project's tests are reported here
+    const suites = new Set(testTargets.map(t => t.suite));
+    const isTargeted = (suite: string) => suites.has(suite);
 
-            run.failed(funcItem, new vscode.TestMessage(summaryMessage), testResult.duration ?? 0);
+    // Compile errors name the class or method they are in rather than a test class
+    const isInProject = async (error: CompileError) => {
+        if (!projectRoot || !error.method) {
+            return true;
         }
+        const dot = error.method.indexOf('.');
+        const uri = dot > 0
+            ? classFileUri(projectRoot, error.method.substring(0, dot))
+            : methodFileUri(projectRoot, error.method);
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return true;
+        } catch {
+            return false;
+        }
+    };
+
+    try {
+        const found = await replayRunnerOutput(vscode.Uri.file(replayPath), {
+            handleEvent: async event => {
+                const belongsHere = 'suite' in event
+                    ? isTargeted(event.suite)
+                    : event.event !== 'compileError' || await isInProject(event);
+                if (belongsHere) {
+                    await handleEvent(event);
+                }
+            },
+            handleResults: async results => {
+                const compileErrors: CompileError[] = [];
+                for (const error of results.compileErrors ?? []) {
+                    if (await isInProject(error)) {
+                        compileErrors.push(error);
+                    }
+                }
+                await handleResults({
+                    ...results,
+                    compileErrors,
+                    testResults: results.testResults?.filter(result => isTargeted(result.suite)),
+                    hookErrors: results.hookErrors?.filter(error => isTargeted(error.suite))
+                });
+            },
+            appendOutput: text => run.appendOutput(text)
+        });
+        if (!found) {
+            failAll(`No 4D test results found in "${replayPath}".`);
+            return;
+        }
+    } catch (err: any) {
+        failAll(`Could not replay "${replayPath}": ${err.message}`);
+        return;
+    }
+
+    if (reporter.compileErrors > 0) {
+        reporter.errorUnreported(
+            `4D compilation failed with ${reporter.compileErrors} error(s) in the replayed run, so this test did not run.`
+        );
+    } else {
+        reporter.errorUnreported(`No result for this test in "${replayPath}"`);
+    }
+}
+
+function safeExtractJsonResults(output: string): RunResults | null {
+    try {
+        return extractJsonResults(output);
+    } catch {
+        return null;
     }
 }
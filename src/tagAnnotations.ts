@@ -0,0 +1,293 @@
+import * as vscode from 'vscode';
+import { configSection } from './runnerConfig';
+import { findTestItems, TestHeading, testData } from './testTree';
+
+// Emoji used when no vocabulary is configured
+const defaultVocabulary: Record<string, string> = {
+    fast: '⚡️',
+    slow: '🐢',
+    unit: '🧪',
+    integration: '🧩',
+    table: '🗄️'
+};
+
+const testClassSelector: vscode.DocumentSelector = { scheme: 'file', pattern: '**/Project/Sources/Classes/*Test.4dm' };
+
+// "// #tags: unit, fast" - group 1 is everything up to the tag list
+const tagLineRe = /^(\s*\/\/\s*#tags\s*:)(.*)$/i;
+
+interface TagVocabulary {
+    // Tag -> emoji
+    emoji: Record<string, string>;
+    // Whether the user declared the vocabulary, which makes other tags unknown
+    declared: boolean;
+}
+
+function getTagVocabulary(): TagVocabulary {
+    const config = vscode.workspace.getConfiguration(configSection);
+    const inspected = config.inspect<Record<string, string>>('tags.vocabulary');
+    return {
+        emoji: config.get<Record<string, string>>('tags.vocabulary', defaultVocabulary),
+        declared: inspected?.globalValue !== undefined ||
+            inspected?.workspaceValue !== undefined ||
+            inspected?.workspaceFolderValue !== undefined
+    };
+}
+
+/**
+ * Emoji prefix of a tag's run profile: the emoji of every vocabulary tag its
+ * name contains, or 🔹 when there is none.
+ */
+export function getEmojiForTag(tagName: string): string {
+    const lower = tagName.toLowerCase();
+    const emojis: string[] = [];
+
+    for (const [key, emoji] of Object.entries(getTagVocabulary().emoji)) {
+        if (emoji && lower.includes(key.toLowerCase())) {
+            emojis.push(emoji);
+        }
+    }
+
+    return emojis.join(' ') + (emojis.length > 0 ? ' ' : '🔹 ');
+}
+
+interface TagOccurrence {
+    name: string;
+    range: vscode.Range;
+}
+
+// The tags of every #tags line in a document, with their position
+function findTagOccurrences(document: vscode.TextDocument): TagOccurrence[] {
+    const occurrences: TagOccurrence[] = [];
+    for (let line = 0; line < document.lineCount; line++) {
+        const match = tagLineRe.exec(document.lineAt(line).text);
+        if (!match) {
+            continue;
+        }
+
+        let offset = match[1].length;
+        for (const part of match[2].split(',')) {
+            const name = part.trim();
+            if (name) {
+                const start = offset + part.indexOf(name);
+                occurrences.push({ name, range: new vscode.Range(line, start, line, start + name.length) });
+            }
+            offset += part.length + 1;
+        }
+    }
+    return occurrences;
+}
+
+function normalizeTag(tag: string): string {
+    return tag.toLowerCase().replace(/[-_\s]/g, '');
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// "Unit", "unit_" and "unti" are near-duplicates of "unit"
+function isNearDuplicate(tag: string, other: string): boolean {
+    if (tag === other) {
+        return false;
+    }
+    const a = normalizeTag(tag);
+    const b = normalizeTag(other);
+    return a === b || (Math.min(a.length, b.length) >= 4 && editDistance(a, b) <= 1);
+}
+
+/**
+ * Completion, hovers, diagnostics and quick fixes for `// #tags:` lines in test
+ * classes, based on the configured vocabulary and the tags used in the tree.
+ */
+class TagAnnotationSupport implements vscode.CompletionItemProvider, vscode.HoverProvider, vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    constructor(
+        private readonly controller: vscode.TestController,
+        private readonly registeredTags: () => Iterable<string>,
+        private readonly diagnostics: vscode.DiagnosticCollection
+    ) {}
+
+    // Number of tests carrying each source tag
+    private countTests(): Map<string, number> {
+        const counts = new Map<string, number>();
+        for (const item of findTestItems(this.controller, () => true)) {
+            const data = testData.get(item);
+            for (const tag of data instanceof TestHeading ? data.tags : []) {
+                counts.set(tag.id, (counts.get(tag.id) ?? 0) + 1);
+            }
+        }
+        return counts;
+    }
+
+    private knownTags(vocabulary: TagVocabulary, counts: Map<string, number>): string[] {
+        return Array.from(new Set([...Object.keys(vocabulary.emoji), ...this.registeredTags(), ...counts.keys()])).sort();
+    }
+
+    /**
+     * Tags that a tag is probably a typo of: vocabulary tags, or tags used by
+     * more tests than it is.
+     */
+    private suggestReplacements(tag: string, vocabulary: TagVocabulary, counts: Map<string, number>): string[] {
+        const known = this.knownTags(vocabulary, counts);
+        const nearDuplicates = known.filter(other =>
+            isNearDuplicate(tag, other) &&
+            (other in vocabulary.emoji || (counts.get(other) ?? 0) > (counts.get(tag) ?? 0))
+        );
+        if (nearDuplicates.length > 0 || !vocabulary.declared || tag in vocabulary.emoji) {
+            return nearDuplicates;
+        }
+
+        // Unknown tags get the closest vocabulary tags
+        return Object.keys(vocabulary.emoji)
+            .map(other => ({ other, distance: editDistance(normalizeTag(tag), normalizeTag(other)) }))
+            .filter(({ distance }) => distance <= 2)
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, 3)
+            .map(({ other }) => other);
+    }
+
+    updateDiagnostics(document: vscode.TextDocument) {
+        if (vscode.languages.match(testClassSelector, document) === 0) {
+            return;
+        }
+
+        const vocabulary = getTagVocabulary();
+        const counts = this.countTests();
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        for (const { name, range } of findTagOccurrences(document)) {
+            const replacements = this.suggestReplacements(name, vocabulary, counts);
+            const nearDuplicate = replacements.find(other => isNearDuplicate(name, other));
+
+            let message: string | undefined;
+            if (nearDuplicate) {
+                message = `Tag "${name}" looks like a typo of "${nearDuplicate}"`;
+            } else if (vocabulary.declared && !(name in vocabulary.emoji)) {
+                message = `Tag "${name}" is not in "${configSection}.tags.vocabulary"`;
+            }
+
+            if (message) {
+                const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Warning);
+                diagnostic.source = '4D tests';
+                diagnostics.push(diagnostic);
+            }
+        }
+        this.diagnostics.set(document.uri, diagnostics);
+    }
+
+    provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
+        const lineText = document.lineAt(position.line).text;
+        const match = tagLineRe.exec(lineText);
+        if (!match || position.character < match[1].length) {
+            return [];
+        }
+
+        const used = new Set(match[2].split(',').map(tag => tag.trim()));
+        const wordRange = document.getWordRangeAtPosition(position, /[\w-]+/);
+        const vocabulary = getTagVocabulary();
+        const counts = this.countTests();
+
+        return this.knownTags(vocabulary, counts)
+            .filter(tag => !used.has(tag) || (wordRange && document.getText(wordRange) === tag))
+            .map(tag => {
+                const item = new vscode.CompletionItem(tag, vscode.CompletionItemKind.EnumMember);
+                item.detail = `${vocabulary.emoji[tag] ?? ''} ${describeCount(counts.get(tag) ?? 0)}`.trim();
+                item.range = wordRange;
+                // Vocabulary tags first
+                item.sortText = `${tag in vocabulary.emoji ? 0 : 1}${tag}`;
+                return item;
+            });
+    }
+
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const occurrence = findTagOccurrences(document).find(o => o.range.contains(position));
+        if (!occurrence) {
+            return undefined;
+        }
+
+        const emoji = getTagVocabulary().emoji[occurrence.name];
+        const count = this.countTests().get(occurrence.name) ?? 0;
+        return new vscode.Hover(
+            new vscode.MarkdownString(`${emoji ? `${emoji} ` : ''}**${occurrence.name}**: ${describeCount(count)}`),
+            occurrence.range
+        );
+    }
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const vocabulary = getTagVocabulary();
+        const counts = this.countTests();
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== '4D tests' || !tagLineRe.test(document.lineAt(diagnostic.range.start.line).text)) {
+                continue;
+            }
+
+            const tag = document.getText(diagnostic.range);
+            this.suggestReplacements(tag, vocabulary, counts).forEach((replacement, index) => {
+                const action = new vscode.CodeAction(`Replace with "${replacement}"`, vscode.CodeActionKind.QuickFix);
+                action.edit = new vscode.WorkspaceEdit();
+                action.edit.replace(document.uri, diagnostic.range, replacement);
+                action.diagnostics = [diagnostic];
+                action.isPreferred = index === 0;
+                actions.push(action);
+            });
+        }
+        return actions;
+    }
+}
+
+function describeCount(count: number): string {
+    return count === 1 ? '1 test' : `${count} tests`;
+}
+
+/**
+ * Registers the editor support for `// #tags:` annotations.
+ *
+ * @param registeredTags - Tags that have a run profile, whether or not a test still uses them
+ */
+export function registerTagAnnotations(
+    context: vscode.ExtensionContext,
+    controller: vscode.TestController,
+    registeredTags: () => Iterable<string>
+) {
+    const diagnostics = vscode.languages.createDiagnosticCollection('4d-test-tags');
+    const support = new TagAnnotationSupport(controller, registeredTags, diagnostics);
+    const updateOpenDocuments = () => vscode.workspace.textDocuments.forEach(d => support.updateDiagnostics(d));
+
+    context.subscriptions.push(
+        diagnostics,
+        vscode.languages.registerCompletionItemProvider(testClassSelector, support, ':', ',', ' '),
+        vscode.languages.registerHoverProvider(testClassSelector, support),
+        vscode.languages.registerCodeActionsProvider(testClassSelector, support, {
+            providedCodeActionKinds: TagAnnotationSupport.providedCodeActionKinds
+        }),
+        vscode.workspace.onDidOpenTextDocument(document => support.updateDiagnostics(document)),
+        vscode.workspace.onDidChangeTextDocument(event => support.updateDiagnostics(event.document)),
+        vscode.workspace.onDidCloseTextDocument(document => diagnostics.delete(document.uri)),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration(`${configSection}.tags`)) {
+                updateOpenDocuments();
+            }
+        })
+    );
+    updateOpenDocuments();
+}
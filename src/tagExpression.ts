@@ -0,0 +1,100 @@
+/**
+ * Boolean tag expressions such as `unit && !slow` or `integration || table`.
+ * `and`, `or` and `not` may be used instead of `&&`, `||` and `!`.
+ */
+export type TagPredicate = (tags: ReadonlySet<string>) => boolean;
+
+const tokenRe = /\s*(&&|\|\||!|\(|\)|[^\s()&|!]+)/y;
+
+function tokenize(expression: string): string[] {
+    const tokens: string[] = [];
+    tokenRe.lastIndex = 0;
+
+    while (tokenRe.lastIndex < expression.length) {
+        const start = tokenRe.lastIndex;
+        const match = tokenRe.exec(expression);
+        if (!match) {
+            const rest = expression.substring(start);
+            if (rest.trim() === '') {
+                break;
+            }
+            const position = start + rest.length - rest.trimStart().length + 1;
+            throw new Error(`Unexpected character at position ${position} in tag expression "${expression}"`);
+        }
+
+        const token = match[1];
+        const lower = token.toLowerCase();
+        tokens.push(lower === 'and' ? '&&' : lower === 'or' ? '||' : lower === 'not' ? '!' : token);
+    }
+    return tokens;
+}
+
+/**
+ * Compiles a tag expression into a predicate over a test's tags. Throws an
+ * Error describing the problem when the expression is malformed.
+ */
+export function parseTagExpression(expression: string): TagPredicate {
+    const tokens = tokenize(expression);
+    let pos = 0;
+
+    const fail = (what: string): never => {
+        throw new Error(`${what} in tag expression "${expression}"`);
+    };
+
+    const parseOr = (): TagPredicate => {
+        let left = parseAnd();
+        while (tokens[pos] === '||') {
+            pos++;
+            const a = left, b = parseAnd();
+            left = tags => a(tags) || b(tags);
+        }
+        return left;
+    };
+
+    const parseAnd = (): TagPredicate => {
+        let left = parseNot();
+        while (tokens[pos] === '&&') {
+            pos++;
+            const a = left, b = parseNot();
+            left = tags => a(tags) && b(tags);
+        }
+        return left;
+    };
+
+    const parseNot = (): TagPredicate => {
+        if (tokens[pos] === '!') {
+            pos++;
+            const operand = parseNot();
+            return tags => !operand(tags);
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): TagPredicate => {
+        const token = tokens[pos++];
+        if (token === undefined) {
+            return fail('Missing tag at the end');
+        }
+        if (token === '(') {
+            const inner = parseOr();
+            if (tokens[pos++] !== ')') {
+                fail('Missing ")"');
+            }
+            return inner;
+        }
+        if (token === ')' || token === '&&' || token === '||') {
+            return fail(`Unexpected "${token}"`);
+        }
+        return tags => tags.has(token);
+    };
+
+    if (tokens.length === 0) {
+        fail('Missing tag');
+    }
+
+    const predicate = parseOr();
+    if (pos < tokens.length) {
+        fail(`Unexpected "${tokens[pos]}"`);
+    }
+    return predicate;
+}
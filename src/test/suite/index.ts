@@ -0,0 +1,24 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as Mocha from 'mocha';
+
+/**
+ * Entry point VS Code calls to run the suite: every *.test.js file next to this one.
+ */
+export function run(): Promise<void> {
+    const mocha = new Mocha({ ui: 'tdd', color: true });
+
+    fs.readdirSync(__dirname)
+        .filter(file => file.endsWith('.test.js'))
+        .forEach(file => mocha.addFile(path.resolve(__dirname, file)));
+
+    return new Promise((resolve, reject) => {
+        mocha.run(failures => {
+            if (failures > 0) {
+                reject(new Error(`${failures} tests failed.`));
+            } else {
+                resolve();
+            }
+        });
+    });
+}
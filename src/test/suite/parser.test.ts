@@ -0,0 +1,172 @@
+import * as assert from 'assert';
+import {
+    findClassFunction,
+    getLifecycleHook,
+    mapLogicalLine,
+    mapSourceLineToLogicalLine,
+    parseClassFile
+} from '../../parser';
+
+suite('parseClassFile', () => {
+    test('reads the base class, constructor and functions', () => {
+        const model = parseClassFile([
+            'Class extends Entity',
+            '',
+            'Class constructor($name : Text)',
+            '\tThis.name:=$name',
+            '',
+            'Function get fullName() : Text',
+            '\treturn This.name',
+            '',
+            'Function set fullName($value : Text)',
+            '\tThis.name:=$value'
+        ].join('\n'), 'User');
+
+        assert.strictEqual(model.name, 'User');
+        assert.strictEqual(model.baseClass, 'Entity');
+        assert.deepStrictEqual(
+            model.functions.map(f => [f.name, f.kind, f.parameters]),
+            [
+                ['constructor', 'constructor', '$name : Text'],
+                ['fullName', 'get', ''],
+                ['fullName', 'set', '$value : Text']
+            ]
+        );
+        assert.strictEqual(findClassFunction(model, 'fullName')?.kind, 'get');
+    });
+
+    test('reads shared and local modifiers', () => {
+        const model = parseClassFile([
+            'shared Function increment()',
+            '\tThis.count+=1',
+            'local Function reset()',
+            '\tThis.count:=0',
+            'exposed shared Function total() : Integer',
+            '\treturn This.count'
+        ].join('\n'), 'Counter');
+
+        assert.deepStrictEqual(
+            model.functions.map(f => [f.name, f.modifiers]),
+            [
+                ['increment', ['shared']],
+                ['reset', ['local']],
+                ['total', ['exposed', 'shared']]
+            ]
+        );
+    });
+
+    test('ignores functions inside block comments and strings', () => {
+        const model = parseClassFile([
+            '/*',
+            'Function test_disabled($t : cs.Testing)',
+            '*/',
+            'Function test_enabled($t : cs.Testing)',
+            '\tvar $text:="Function test_inString() // not a comment"',
+            '\t/* inline */ $t.assert.isTrue($t; True)'
+        ].join('\n'), 'SampleTest');
+
+        assert.deepStrictEqual(model.functions.map(f => f.name), ['test_enabled']);
+        assert.strictEqual(model.functions[0].range.end.line, 5);
+    });
+
+    test('joins declarations continued with a trailing backslash', () => {
+        const model = parseClassFile([
+            'Function test_long(\\',
+            '\t$t : cs.Testing; \\',
+            '\t$extra : Text)',
+            '\tvar $a:=1'
+        ].join('\n'), 'SampleTest');
+
+        const [classFunction] = model.functions;
+        assert.strictEqual(classFunction.name, 'test_long');
+        assert.strictEqual(classFunction.parameters, '$t : cs.Testing; $extra : Text');
+        assert.strictEqual(classFunction.declaration.start.line, 0);
+        assert.strictEqual(classFunction.declaration.end.line, 2);
+        assert.strictEqual(classFunction.range.end.line, 3);
+    });
+
+    test('collects annotations separated from the declaration by blank lines and comments', () => {
+        const model = parseClassFile([
+            '// #tags: unit, fast',
+            '',
+            '// Checks the happy path',
+            '// #tags: database',
+            '// #cases: empty, long name',
+            'Function test_create($t : cs.Testing)',
+            '',
+            'Function test_other($t : cs.Testing)'
+        ].join('\n'), 'SampleTest');
+
+        const [annotated, other] = model.functions;
+        assert.deepStrictEqual(annotated.annotations.get('tags'), ['unit', 'fast', 'database']);
+        assert.deepStrictEqual(annotated.annotations.get('cases'), ['empty', 'long name']);
+        assert.strictEqual(other.annotations.size, 0);
+    });
+
+    test('does not carry annotations past a line of code', () => {
+        const model = parseClassFile([
+            '// #tags: unit',
+            'var $unrelated : Integer',
+            'Function test_untagged($t : cs.Testing)'
+        ].join('\n'), 'SampleTest');
+
+        assert.strictEqual(model.functions[0].annotations.size, 0);
+    });
+});
+
+suite('getLifecycleHook', () => {
+    test('recognises hooks whatever their case', () => {
+        const model = parseClassFile([
+            'Function BeforeAll()',
+            'Function teardown()',
+            'Function test_setup($t : cs.Testing)',
+            'Function get setup()'
+        ].join('\n'), 'SampleTest');
+
+        assert.deepStrictEqual(
+            model.functions.map(getLifecycleHook),
+            ['beforeAll', 'teardown', undefined, undefined]
+        );
+    });
+});
+
+suite('findClassFunction', () => {
+    const model = parseClassFile([
+        'Function BeforeAll()',
+        'Function get total() : Integer',
+        'Function set total($value : Integer)',
+        'Function Total()'
+    ].join('\n'), 'SampleTest');
+
+    test('prefers an exact match and getters over setters', () => {
+        assert.strictEqual(findClassFunction(model, 'total')?.kind, 'get');
+        assert.strictEqual(findClassFunction(model, 'Total')?.declaration.start.line, 3);
+    });
+
+    test('falls back to a match ignoring case, as 4D names are', () => {
+        assert.strictEqual(findClassFunction(model, 'beforeAll')?.name, 'BeforeAll');
+        assert.strictEqual(findClassFunction(model, 'afterAll'), undefined);
+    });
+});
+
+suite('logical lines', () => {
+    const lines = [
+        'Function test_sum($t : cs.Testing)',
+        '\tvar $sum:=1+\\',
+        '\t\t2+\\',
+        '\t\t3',
+        '\t$t.assert.areEqual($t; 6; $sum)'
+    ];
+
+    test('maps 4D line numbers to the source line they end on', () => {
+        assert.strictEqual(mapLogicalLine(lines, 0, 1), 3);
+        assert.strictEqual(mapLogicalLine(lines, 0, 2), 4);
+        assert.strictEqual(mapLogicalLine(lines, 0, 3), null);
+    });
+
+    test('maps source lines back to 4D line numbers', () => {
+        assert.strictEqual(mapSourceLineToLogicalLine(lines, 0, 1), 1);
+        assert.strictEqual(mapSourceLineToLogicalLine(lines, 0, 3), 1);
+        assert.strictEqual(mapSourceLineToLogicalLine(lines, 0, 4), 2);
+    });
+});
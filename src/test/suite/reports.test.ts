@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { buildJUnitReport } from '../../reports';
+import { RecordedTest } from '../../results';
+
+function recordedTest(overrides: Partial<RecordedTest>): RecordedTest {
+    return {
+        item: { tags: [] as readonly vscode.TestTag[] } as vscode.TestItem,
+        suite: 'UserTest',
+        name: 'test_create',
+        status: 'passed',
+        duration: 1500,
+        assertions: [],
+        ...overrides
+    };
+}
+
+suite('buildJUnitReport', () => {
+    test('counts results per class and for the whole run', () => {
+        const xml = buildJUnitReport({
+            startedAt: Date.UTC(2024, 0, 2, 3, 4, 5),
+            tests: [
+                recordedTest({ name: 'test_a' }),
+                recordedTest({ name: 'test_b', status: 'failed', message: 'Expected 1' }),
+                recordedTest({ suite: 'OrderTest', name: 'test_c', status: 'cancelled', message: 'Timed out' }),
+                recordedTest({ suite: 'OrderTest', name: 'test_d', status: 'skipped', duration: undefined })
+            ]
+        });
+
+        assert.match(xml, /<testsuites name="4D tests" tests="4" failures="1" errors="1" skipped="1" time="4.500" timestamp="2024-01-02T03:04:05.000Z">/);
+        assert.match(xml, /<testsuite name="UserTest" tests="2" failures="1" errors="0" skipped="0" time="3.000">/);
+        assert.match(xml, /<testsuite name="OrderTest" tests="2" failures="0" errors="1" skipped="1" time="1.500">/);
+        assert.match(xml, /<error message="Timed out" type="Cancelled">Timed out<\/error>/);
+        assert.match(xml, /<testcase classname="OrderTest" name="test_d" time="0.000">\n      <skipped\/>/);
+    });
+
+    test('escapes markup and drops control characters', () => {
+        const xml = buildJUnitReport({
+            startedAt: 0,
+            configuration: 'Data & "seed"',
+            tests: [recordedTest({
+                name: 'test_<compare>',
+                status: 'failed',
+                message: 'It\'s <wrong>\u0007',
+                assertions: [{ passed: false, message: 'a & b', expected: '<x>', actual: 'y', line: 4 }]
+            })]
+        });
+
+        assert.match(xml, /<property name="configuration" value="Data &amp; &quot;seed&quot;"\/>/);
+        assert.match(xml, /name="test_&lt;compare&gt;"/);
+        assert.match(xml, /<failure message="It&apos;s &lt;wrong&gt;" type="AssertionFailure">a &amp; b \(line 4\)\n/);
+        assert.match(xml, /Expected: &quot;&lt;x&gt;&quot;/);
+        assert.doesNotMatch(xml, /\u0007/);
+    });
+});
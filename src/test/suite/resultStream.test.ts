@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { extractJsonResults, LineSplitter, parseCompilerLine, parseRunnerEvent } from '../../resultStream';
+
+suite('parseRunnerEvent', () => {
+    test('parses protocol events', () => {
+        assert.deepStrictEqual(
+            parseRunnerEvent('  {"event":"testStart","suite":"UserTest","name":"test_create"}  '),
+            { event: 'testStart', suite: 'UserTest', name: 'test_create' }
+        );
+    });
+
+    test('ignores other output', () => {
+        assert.strictEqual(parseRunnerEvent('Compiling project...'), null);
+        assert.strictEqual(parseRunnerEvent('{"event":"unknown"}'), null);
+        assert.strictEqual(parseRunnerEvent('{"suite":"UserTest"}'), null);
+        assert.strictEqual(parseRunnerEvent('{'), null);
+        // A line of a pretty-printed result object
+        assert.strictEqual(parseRunnerEvent('  "testResults": [{ "name": "test_a" }],'), null);
+        assert.strictEqual(parseRunnerEvent('{ "a": 1 }, { "b": 2 }'), null);
+    });
+});
+
+suite('LineSplitter', () => {
+    test('joins lines split across chunks and strips \\r', () => {
+        const lines: string[] = [];
+        const splitter = new LineSplitter(line => lines.push(line));
+
+        splitter.push('{"event":"suite');
+        splitter.push('Start","suite":"A"}\r\nplain ');
+        assert.deepStrictEqual(lines, ['{"event":"suiteStart","suite":"A"}']);
+
+        splitter.push('text\n\nlast');
+        splitter.end();
+        assert.deepStrictEqual(lines, ['{"event":"suiteStart","suite":"A"}', 'plain text', '', 'last']);
+    });
+
+    test('reports nothing at the end when the output ended with a newline', () => {
+        const lines: string[] = [];
+        const splitter = new LineSplitter(line => lines.push(line));
+        splitter.push('done\n');
+        splitter.end();
+        assert.deepStrictEqual(lines, ['done']);
+    });
+});
+
+suite('extractJsonResults', () => {
+    test('finds the results object among other output', () => {
+        assert.deepStrictEqual(
+            extractJsonResults('Running tests\n{"passed":true,"testResults":[]}\nDone'),
+            { passed: true, testResults: [] }
+        );
+    });
+
+    test('returns null without an object and throws on broken JSON', () => {
+        assert.strictEqual(extractJsonResults('no results'), null);
+        assert.strictEqual(extractJsonResults('} before {'), null);
+        assert.throws(() => extractJsonResults('{"passed": tru}'), SyntaxError);
+    });
+});
+
+suite('parseCompilerLine', () => {
+    test('parses errors and warnings printed by the compiler', () => {
+        assert.deepStrictEqual(
+            parseCompilerLine('Error: UserService.create line 3: The variable $x is not declared'),
+            { message: 'The variable $x is not declared', isError: true, method: 'UserService.create', line: 3 }
+        );
+        assert.deepStrictEqual(
+            parseCompilerLine('  warning : Utils, line 12 : Unused variable'),
+            { message: 'Unused variable', isError: false, method: 'Utils', line: 12 }
+        );
+    });
+
+    test('ignores other lines', () => {
+        assert.strictEqual(parseCompilerLine('Error while opening the data file'), null);
+        assert.strictEqual(parseCompilerLine('UserService.create line 3: no severity'), null);
+    });
+});
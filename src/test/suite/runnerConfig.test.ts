@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    buildRunnerArgs,
+    buildRunnerCwd,
+    buildRunnerEnv,
+    describeSpawnError,
+    resolveTemplate,
+    RunnerConfig,
+    RunnerPlaceholders
+} from '../../runnerConfig';
+
+function placeholders(overrides: Partial<RunnerPlaceholders> = {}): RunnerPlaceholders {
+    return {
+        tests: '',
+        tag: '',
+        format: 'json',
+        coverage: '',
+        workspaceFolder: '/work',
+        projectFolder: '/work/app',
+        dataFile: '',
+        shard: '',
+        debug: '',
+        breakpoints: '',
+        configuration: '',
+        tool4d: '',
+        userParameters: '',
+        ...overrides
+    };
+}
+
+function runnerConfig(overrides: Partial<RunnerConfig> = {}): RunnerConfig {
+    return {
+        command: 'make',
+        args: ['test', 'format=${format}', 'test=${tests}', 'tag=${tag}'],
+        cwd: '${projectFolder}',
+        env: {},
+        format: 'json',
+        timeout: 0,
+        testTimeout: 0,
+        tagExpressions: false,
+        workers: 1,
+        dataFile: '',
+        backend: 'process',
+        replayPath: '',
+        outputFilters: [],
+        caseSelection: false,
+        ...overrides
+    };
+}
+
+suite('resolveTemplate', () => {
+    test('substitutes placeholders', () => {
+        assert.strictEqual(
+            resolveTemplate('${projectFolder}/tests.${format}', placeholders()),
+            '/work/app/tests.json'
+        );
+    });
+
+    test('returns null when a placeholder is empty', () => {
+        assert.strictEqual(resolveTemplate('test=${tests}', placeholders()), null);
+        assert.strictEqual(resolveTemplate('${format}:${tag}', placeholders()), null);
+    });
+
+    test('reads ${env:NAME} from the environment', () => {
+        process.env.FOURD_TEST_TEMPLATE = 'from-env';
+        try {
+            assert.strictEqual(resolveTemplate('value=${env:FOURD_TEST_TEMPLATE}', placeholders()), 'value=from-env');
+            assert.strictEqual(resolveTemplate('value=${env:FOURD_TEST_UNSET}', placeholders()), null);
+        } finally {
+            delete process.env.FOURD_TEST_TEMPLATE;
+        }
+    });
+
+    test('leaves unknown placeholders alone', () => {
+        assert.strictEqual(resolveTemplate('${workspaceRoot}/x', placeholders()), '${workspaceRoot}/x');
+    });
+});
+
+suite('buildRunnerArgs', () => {
+    test('drops arguments whose placeholders are empty', () => {
+        assert.deepStrictEqual(buildRunnerArgs(runnerConfig(), placeholders()), ['test', 'format=json']);
+    });
+
+    test('keeps arguments once their placeholders have values', () => {
+        assert.deepStrictEqual(
+            buildRunnerArgs(runnerConfig(), placeholders({ tests: 'ATest.test_a,BTest.test_b', tag: 'unit' })),
+            ['test', 'format=json', 'test=ATest.test_a,BTest.test_b', 'tag=unit']
+        );
+    });
+});
+
+suite('buildRunnerEnv and buildRunnerCwd', () => {
+    test('resolves environment variables, empty when a placeholder is empty', () => {
+        const env = buildRunnerEnv(
+            runnerConfig({ env: { SHARD: '${shard}', TESTS: '${tests}' } }),
+            placeholders({ shard: '2' })
+        );
+        assert.strictEqual(env.SHARD, '2');
+        assert.strictEqual(env.TESTS, '');
+    });
+
+    test('falls back to the project folder', () => {
+        assert.strictEqual(buildRunnerCwd(runnerConfig({ cwd: '${tool4d}' }), placeholders()), '/work/app');
+        assert.strictEqual(buildRunnerCwd(runnerConfig({ cwd: '${workspaceFolder}' }), placeholders()), '/work');
+    });
+});
+
+suite('describeSpawnError', () => {
+    const enoent = Object.assign(new Error('spawn make ENOENT'), { code: 'ENOENT' });
+
+    test('names the command when it is missing', () => {
+        assert.match(describeSpawnError(runnerConfig(), os.tmpdir(), enoent), /runner "make" was not found/);
+    });
+
+    test('names the working folder when that is missing', () => {
+        const cwd = path.join(os.tmpdir(), 'no-such-4d-project');
+        assert.match(describeSpawnError(runnerConfig(), cwd, enoent), /Working folder ".*no-such-4d-project" .* does not exist/);
+    });
+});
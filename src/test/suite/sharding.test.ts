@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TestTarget } from '../../results';
+import { setDurationEstimator, splitIntoShards } from '../../sharding';
+
+function target(suite: string, func: string): TestTarget {
+    return { suite, func, item: { id: `${suite}.${func}` } as vscode.TestItem };
+}
+
+function describeShards(shards: TestTarget[][]): string[][] {
+    return shards.map(shard => shard.map(t => t.item.id));
+}
+
+suite('splitIntoShards', () => {
+    teardown(() => setDurationEstimator(() => undefined));
+
+    test('keeps every test in one shard with a single worker or a single class', () => {
+        const targets = [target('ATest', 'test_a'), target('BTest', 'test_b')];
+        assert.deepStrictEqual(splitIntoShards(targets, 1), [targets]);
+
+        const oneClass = [target('ATest', 'test_a'), target('ATest', 'test_b')];
+        assert.deepStrictEqual(splitIntoShards(oneClass, 4), [oneClass]);
+    });
+
+    test('never splits a test class across shards', () => {
+        const targets = [
+            target('ATest', 'test_1'), target('BTest', 'test_1'),
+            target('ATest', 'test_2'), target('CTest', 'test_1')
+        ];
+        const shards = describeShards(splitIntoShards(targets, 2));
+
+        assert.strictEqual(shards.length, 2);
+        assert.ok(shards.some(shard => shard.includes('ATest.test_1') && shard.includes('ATest.test_2')));
+        assert.deepStrictEqual(shards.flat().sort(), targets.map(t => t.item.id).sort());
+    });
+
+    test('balances classes by their recorded durations, longest first', () => {
+        const durations: Record<string, number> = {
+            'SlowTest.test_1': 900,
+            'MediumTest.test_1': 500,
+            'FastTest.test_1': 300,
+            'FastTest.test_2': 100
+        };
+        setDurationEstimator(item => durations[item.id]);
+
+        const shards = describeShards(splitIntoShards(
+            Object.keys(durations).map(id => target(id.split('.')[0], id.split('.')[1])),
+            2
+        ));
+        assert.deepStrictEqual(shards, [
+            ['SlowTest.test_1'],
+            ['MediumTest.test_1', 'FastTest.test_1', 'FastTest.test_2']
+        ]);
+    });
+
+    test('counts tests without a recorded duration as an average test', () => {
+        // CTest and DTest count as 600 ms each
+        const durations: Record<string, number> = { 'ATest.test_1': 1000, 'BTest.test_1': 200 };
+        setDurationEstimator(item => durations[item.id]);
+
+        const shards = describeShards(splitIntoShards([
+            target('ATest', 'test_1'),
+            target('BTest', 'test_1'),
+            target('CTest', 'test_1'),
+            target('DTest', 'test_1')
+        ], 2));
+        assert.deepStrictEqual(shards, [
+            ['ATest.test_1', 'BTest.test_1'],
+            ['CTest.test_1', 'DTest.test_1']
+        ]);
+    });
+});
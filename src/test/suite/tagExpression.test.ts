@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { parseTagExpression } from '../../tagExpression';
+
+function matches(expression: string, ...tags: string[]): boolean {
+    return parseTagExpression(expression)(new Set(tags));
+}
+
+suite('parseTagExpression', () => {
+    test('matches a single tag', () => {
+        assert.strictEqual(matches('unit', 'unit', 'fast'), true);
+        assert.strictEqual(matches('unit', 'integration'), false);
+    });
+
+    test('gives ! precedence over && and && over ||', () => {
+        assert.strictEqual(matches('unit && !slow', 'unit'), true);
+        assert.strictEqual(matches('unit && !slow', 'unit', 'slow'), false);
+        assert.strictEqual(matches('a || b && c', 'a'), true);
+        assert.strictEqual(matches('a || b && c', 'b'), false);
+        assert.strictEqual(matches('!!unit', 'unit'), true);
+    });
+
+    test('groups with parentheses', () => {
+        assert.strictEqual(matches('(a || b) && c', 'b'), false);
+        assert.strictEqual(matches('(a || b) && c', 'b', 'c'), true);
+        assert.strictEqual(matches('!(a || b)', 'c'), true);
+    });
+
+    test('accepts and, or and not in any case', () => {
+        assert.strictEqual(matches('unit AND not slow', 'unit'), true);
+        assert.strictEqual(matches('unit Or table', 'table'), true);
+    });
+
+    test('allows tags with dashes and dots without spaces around operators', () => {
+        assert.strictEqual(matches('api-v2&&!db.write', 'api-v2'), true);
+        assert.strictEqual(matches('api-v2&&!db.write', 'api-v2', 'db.write'), false);
+    });
+
+    test('rejects malformed expressions', () => {
+        assert.throws(() => parseTagExpression(''), /Missing tag in tag expression ""/);
+        assert.throws(() => parseTagExpression('unit &&'), /Missing tag at the end/);
+        assert.throws(() => parseTagExpression('(unit || fast'), /Missing "\)"/);
+        assert.throws(() => parseTagExpression('unit fast'), /Unexpected "fast"/);
+        assert.throws(() => parseTagExpression('|| unit'), /Unexpected "\|\|"/);
+        assert.throws(() => parseTagExpression('unit & fast'), /Unexpected character at position 6/);
+    });
+});
@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { RecordedTest, TestStatus } from '../../results';
+import { TestHistory } from '../../testHistory';
+
+class MemoryMemento implements vscode.Memento {
+    private readonly values = new Map<string, unknown>();
+
+    keys(): readonly string[] {
+        return Array.from(this.values.keys());
+    }
+
+    get<T>(key: string): T | undefined;
+    get<T>(key: string, defaultValue: T): T;
+    get<T>(key: string, defaultValue?: T): T | undefined {
+        return this.values.has(key) ? this.values.get(key) as T : defaultValue;
+    }
+
+    async update(key: string, value: unknown): Promise<void> {
+        this.values.set(key, value);
+    }
+}
+
+const testSource = [
+    'Class constructor()',
+    '',
+    'Function test_create($t : cs.Testing)',
+    '\tvar $user:=cs.User.new("Ada")',
+    '\t$t.assert.areEqual($t; "Ada"; $user.name)'
+].join('\n');
+
+suite('TestHistory', () => {
+    let projectFolder: string;
+    let item: vscode.TestItem;
+    let history: TestHistory;
+
+    const writeClass = (name: string, content: string) =>
+        fs.writeFile(path.join(projectFolder, 'Project', 'Sources', 'Classes', `${name}.4dm`), content);
+
+    const record = (status: TestStatus, configuration?: string) => {
+        const test: RecordedTest = { item, suite: 'UserTest', name: 'test_create', status, assertions: [] };
+        return history.record({ startedAt: Date.now(), configuration, tests: [test] });
+    };
+
+    setup(async () => {
+        projectFolder = await fs.mkdtemp(path.join(os.tmpdir(), '4d-history-'));
+        await fs.mkdir(path.join(projectFolder, 'Project', 'Sources', 'Classes'), { recursive: true });
+        await writeClass('UserTest', testSource);
+        await writeClass('User', 'Class constructor($name : Text)\n\tThis.name:=""');
+
+        const uri = vscode.Uri.file(path.join(projectFolder, 'Project', 'Sources', 'Classes', 'UserTest.4dm'));
+        item = { id: `${uri}/test_create`, uri, range: new vscode.Range(2, 0, 4, 49) } as vscode.TestItem;
+        history = new TestHistory(new MemoryMemento());
+    });
+
+    teardown(() => fs.rm(projectFolder, { recursive: true, force: true }));
+
+    test('flags a test that failed and passed with the same code as flaky', async () => {
+        await record('failed');
+        await record('passed');
+        assert.strictEqual(history.isFlaky(item.id), true);
+    });
+
+    test('does not flag a test that passes after the class under test was fixed', async () => {
+        await record('failed');
+        await writeClass('User', 'Class constructor($name : Text)\n\tThis.name:=$name');
+        await record('passed');
+        assert.strictEqual(history.isFlaky(item.id), false);
+    });
+
+    test('only compares results of the same run configuration', async () => {
+        await record('passed', 'Seeded data');
+        await record('failed', 'Empty data file');
+        assert.strictEqual(history.isFlaky(item.id), false);
+
+        await record('passed', 'Empty data file');
+        assert.strictEqual(history.isFlaky(item.id), true);
+    });
+
+    test('ignores cancelled runs', async () => {
+        await record('passed');
+        await record('cancelled');
+        assert.strictEqual(history.isFlaky(item.id), false);
+        assert.deepStrictEqual(history.lastFailed(), []);
+
+        await record('failed');
+        await record('cancelled');
+        assert.deepStrictEqual(history.lastFailed(), [item.id]);
+    });
+
+    test('keeps the most recent results first', async () => {
+        await record('failed');
+        await record('passed');
+        assert.deepStrictEqual(history.entries(item.id).map(e => e.status), ['passed', 'failed']);
+        assert.strictEqual(history.label(item.id), 'UserTest.test_create');
+    });
+
+    test('keeps the result but not the duration of debug runs', async () => {
+        const test: RecordedTest = { item, suite: 'UserTest', name: 'test_create', status: 'passed', duration: 40, assertions: [] };
+        await history.record({ startedAt: Date.now(), tests: [test] });
+        await history.record({ startedAt: Date.now(), debug: true, tests: [{ ...test, status: 'failed', duration: 90000 }] });
+        assert.deepStrictEqual(history.entries(item.id).map(e => [e.status, e.duration]), [['failed', undefined], ['passed', 40]]);
+    });
+});
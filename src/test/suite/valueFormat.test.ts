@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { describeStringDifference, formatValue, formatValueInline } from '../../valueFormat';
+
+suite('formatValue', () => {
+    test('sorts object keys so attribute order is not a difference', () => {
+        assert.strictEqual(
+            formatValue({ b: 1, a: [true, null] }),
+            '{\n  "a": [\n    true,\n    null\n  ],\n  "b": 1\n}'
+        );
+    });
+
+    test('shows 4D dates, pictures and entity references', () => {
+        assert.strictEqual(formatValue('2024-03-01T00:00:00.000Z'), '!2024-03-01!');
+        assert.strictEqual(formatValue('[object Picture]'), '<Picture>');
+        assert.strictEqual(formatValue({ __KEY: 12, __STAMP: 3 }), 'Entity(12) {}');
+    });
+
+    test('shortens values shown inline', () => {
+        assert.strictEqual(formatValueInline({ a: 1, b: 2 }), '{ "a": 1, "b": 2 }');
+        assert.strictEqual(formatValueInline('x'.repeat(100), 10), '"xxxxxxxx…');
+    });
+});
+
+suite('describeStringDifference', () => {
+    test('leaves short strings and other values alone', () => {
+        assert.strictEqual(describeStringDifference('abc', 'abd'), undefined);
+        assert.strictEqual(describeStringDifference(1, 2), undefined);
+    });
+
+    test('points at the first differing character of long strings', () => {
+        const expected = 'The quick brown fox jumps over the lazy dog';
+        const actual = 'The quick brown fox jumped over the lazy dog';
+        const description = describeStringDifference(expected, actual)!;
+
+        assert.match(description, /^Strings differ at character 25 \(line 1, column 25\); expected length 43, actual length 44/);
+    });
+
+    test('reports lines and missing characters', () => {
+        const description = describeStringDifference('line one\nline two', 'line one\nline')!;
+
+        assert.match(description, /line 2, column 5/);
+        assert.match(description, /Actual is missing the last 4 character\(s\)/);
+    });
+});
@@ -0,0 +1,176 @@
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { TestRunRecord, TestStatus } from './results';
+import { configSection } from './runnerConfig';
+import { getProjectRoot } from './testTree';
+
+export interface HistoryEntry {
+    status: TestStatus;
+    duration?: number;
+    message?: string;
+    timestamp: number;
+    // Hash of the test function and the classes it uses, to tell flaky results from code changes
+    sourceHash?: string;
+    // Run configuration the result was produced with
+    configuration?: string;
+}
+
+interface TestHistoryRecord {
+    // "Suite.test_name", for tests that are no longer in the tree
+    label: string;
+    // Most recent first
+    entries: HistoryEntry[];
+}
+
+const storageKey = 'testHistory';
+
+/**
+ * Results of the last runs of every test, kept in workspace storage.
+ */
+export class TestHistory {
+    private readonly records: Record<string, TestHistoryRecord>;
+
+    constructor(private readonly state: vscode.Memento) {
+        this.records = state.get<Record<string, TestHistoryRecord>>(storageKey, {});
+    }
+
+    testIds(): string[] {
+        return Object.keys(this.records);
+    }
+
+    label(testId: string): string {
+        return this.records[testId]?.label ?? testId;
+    }
+
+    entries(testId: string): HistoryEntry[] {
+        return this.records[testId]?.entries ?? [];
+    }
+
+    /**
+     * A test is flaky when it both passed and failed while its source and run
+     * configuration stayed the same. Skipped and cancelled runs don't count.
+     */
+    isFlaky(testId: string): boolean {
+        const entries = this.entries(testId).filter(e => e.status !== 'skipped' && e.status !== 'cancelled');
+        if (entries.length < 2) {
+            return false;
+        }
+
+        const { sourceHash, configuration } = entries[0];
+        const sameRun = entries.filter(e => e.sourceHash === sourceHash && e.configuration === configuration);
+        return sameRun.some(e => e.status === 'passed') &&
+            sameRun.some(e => e.status === 'failed' || e.status === 'errored');
+    }
+
+    /**
+     * Tests whose most recent result, not counting cancelled runs, is a failure
+     * or an error.
+     */
+    lastFailed(): string[] {
+        return this.testIds().filter(id => {
+            const latest = this.entries(id).find(e => e.status !== 'cancelled');
+            return latest !== undefined && (latest.status === 'failed' || latest.status === 'errored');
+        });
+    }
+
+    async record(run: TestRunRecord) {
+        const size = Math.max(1, vscode.workspace.getConfiguration(configSection).get<number>('history.size', 10));
+        const sources = new Map<string, string | undefined>();
+
+        for (const test of run.tests) {
+            const record = this.records[test.item.id] ?? { label: `${test.suite}.${test.name}`, entries: [] };
+            record.label = `${test.suite}.${test.name}`;
+            record.entries.unshift({
+                status: test.status,
+                // Debug runs count for pass/fail, but their durations mean nothing
+                duration: run.debug ? undefined : test.duration,
+                message: test.message,
+                timestamp: run.finishedAt ?? Date.now(),
+                sourceHash: await hashTestSource(test.item, sources),
+                configuration: run.configuration
+            });
+            record.entries.splice(size);
+            this.records[test.item.id] = record;
+        }
+
+        await this.state.update(storageKey, this.records);
+    }
+}
+
+// Classes a test class uses, e.g. cs.UserService
+const classReferenceRe = /\bcs\.(\w+)/g;
+
+/**
+ * Hashes a test function together with the classes its test class uses, so that
+ * fixing a class under test counts as a code change rather than a flaky result.
+ */
+async function hashTestSource(
+    item: vscode.TestItem,
+    sources: Map<string, string | undefined>
+): Promise<string | undefined> {
+    if (!item.uri || !item.range) {
+        return undefined;
+    }
+
+    const content = await readSource(item.uri, sources);
+    if (content === undefined) {
+        return undefined;
+    }
+
+    const body = content.split('\n').slice(item.range.start.line, item.range.end.line + 1).join('\n');
+    const hash = createHash('sha1').update(body);
+
+    const projectRoot = getProjectRoot(item.uri);
+    const classNames = new Set(Array.from(content.matchAll(classReferenceRe), match => match[1]));
+    for (const className of Array.from(classNames).sort()) {
+        const classUri = projectRoot && vscode.Uri.joinPath(projectRoot, 'Project', 'Sources', 'Classes', `${className}.4dm`);
+        const classContent = classUri && await readSource(classUri, sources);
+        hash.update(`\0${className}\0${classContent ?? ''}`);
+    }
+    return hash.digest('hex');
+}
+
+async function readSource(uri: vscode.Uri, sources: Map<string, string | undefined>): Promise<string | undefined> {
+    const key = uri.toString();
+    if (!sources.has(key)) {
+        try {
+            sources.set(key, new TextDecoder().decode(await vscode.workspace.fs.readFile(uri)));
+        } catch {
+            sources.set(key, undefined);
+        }
+    }
+    return sources.get(key);
+}
+
+const statusIcons: Record<TestStatus, string> = {
+    passed: '$(pass)',
+    failed: '$(error)',
+    errored: '$(warning)',
+    skipped: '$(debug-step-over)',
+    cancelled: '$(circle-slash)'
+};
+
+/**
+ * Shows the recorded results of a test in a quick pick.
+ */
+export async function showTestHistory(history: TestHistory, testId: string) {
+    const entries = history.entries(testId);
+    if (entries.length === 0) {
+        vscode.window.showInformationMessage(`No results recorded for ${history.label(testId)} yet.`);
+        return;
+    }
+
+    const flaky = history.isFlaky(testId) ? ' (flaky)' : '';
+    await vscode.window.showQuickPick(
+        entries.map(entry => ({
+            label: `${statusIcons[entry.status]} ${entry.status}`,
+            description: [
+                entry.configuration,
+                entry.duration !== undefined ? `${entry.duration} ms` : undefined,
+                new Date(entry.timestamp).toLocaleString()
+            ].filter(part => part !== undefined).join(' · '),
+            detail: entry.message
+        })),
+        { title: `History of ${history.label(testId)}${flaky}` }
+    );
+}
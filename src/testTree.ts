@@ -1,81 +1,382 @@
-import * as vscode from 'vscode';
-import { parseMarkdown } from './parser';
-
-export const testData = new WeakMap<vscode.TestItem, TestCase | TestHeading | FileData>();
-
-export class TestCase {
-    constructor(
-        public readonly file: string,
-        public readonly actual: string,
-        public readonly operator: string,
-        public readonly expected: string,
-        public readonly should: string,
-        public readonly generation: number
-    ) {}
-
-    getLabel(): string {
-        return `${this.should}`;
-    }
-}
-
-export class TestHeading {
-    constructor(public readonly generation: number) {}
-}
-
-export type FileData = { kind: 'file' };
-
-export async function updateFromDisk(
-    controller: vscode.TestController,
-    fileItem: vscode.TestItem,
-    getOrCreateTag: (name: string) => vscode.TestTag
-) {
-    try {
-        const rawContent = await vscode.workspace.fs.readFile(fileItem.uri!);
-        const content = new TextDecoder().decode(rawContent);
-
-        const ancestors: { item: vscode.TestItem; children: vscode.TestItem[] }[] = [
-            { item: fileItem, children: [] }
-        ];
-
-        const ascend = (depth: number) => {
-            while (ancestors.length > depth) {
-                const finished = ancestors.pop()!;
-                finished.item.children.replace(finished.children);
-            }
-        };
-
-        const thisGeneration = Date.now();
-        let hasFunction = false;
-
-        parseMarkdown(content, {
-            onHeading: (range, name, depth, headingTags) => {
-                if (name.startsWith('test_')) {
-                    hasFunction = true;
-                }
-
-                ascend(depth);
-                const parent = ancestors[ancestors.length - 1];
-                const id = `${fileItem.uri}/${name}`;
-                const thead = controller.createTestItem(id, name, fileItem.uri);
-                thead.range = range;
-                testData.set(thead, new TestHeading(thisGeneration));
-
-                // Convert heading tags to TestTag objects
-                const tags = headingTags.map(getOrCreateTag);
-                thead.tags = tags; // assign tags
-
-                parent.children.push(thead);
-                ancestors.push({ item: thead, children: [] });
-            }
-        });
-
-        // Remove file if no valid functions
-        if (!hasFunction) {
-            controller.items.delete(fileItem.id);
-        }
-
-        ascend(0);
-    } catch (err) {
-        console.error(`Error reading/parsing file ${fileItem.uri?.fsPath}:`, err);
-    }
-}
+import * as vscode from 'vscode';
+import { getLifecycleHook, LifecycleHookName, lifecycleHooks, parseClassFile } from './parser';
+
+export const testData = new WeakMap<
+    vscode.TestItem,
+    TestCase | TestHeading | ParameterizedCase | LifecycleHook | FileData | ProjectData
+>();
+
+export class TestCase {
+    constructor(
+        public readonly file: string,
+        public readonly actual: string,
+        public readonly operator: string,
+        public readonly expected: string,
+        public readonly should: string,
+        public readonly generation: number
+    ) {}
+
+    getLabel(): string {
+        return `${this.should}`;
+    }
+}
+
+export class TestHeading {
+    constructor(
+        public readonly generation: number,
+        // Tags from the source annotations, without result tags
+        public readonly tags: vscode.TestTag[] = []
+    ) {}
+}
+
+// One case of a data-driven test, from `// #cases:` or from the runner's results
+export class ParameterizedCase {
+    constructor(
+        public readonly name: string,
+        // Parse that declared the case; undefined for cases only seen in results
+        public readonly generation?: number
+    ) {}
+}
+
+export function caseItemId(testItem: vscode.TestItem, caseName: string): string {
+    return `${testItem.id}/case:${caseName}`;
+}
+
+// A setup/teardown style function of a test class; running it runs the tests of its class
+export class LifecycleHook {
+    constructor(
+        public readonly generation: number,
+        public readonly hook: LifecycleHookName
+    ) {}
+}
+
+const hookDescriptions: Record<LifecycleHookName, string> = {
+    beforeAll: 'runs before all tests',
+    setup: 'runs before each test',
+    beforeEach: 'runs before each test',
+    afterEach: 'runs after each test',
+    teardown: 'runs after each test',
+    afterAll: 'runs after all tests'
+};
+
+export type FileData = { kind: 'file' };
+
+export type ProjectData = { kind: 'project'; root: vscode.Uri };
+
+const classesDirRe = /^(.*)\/Project\/Sources\/Classes\/[^/]+$/;
+
+/**
+ * Returns the 4D project folder (the one containing `Project/Sources`) that a
+ * class file belongs to, or undefined for files outside a project.
+ */
+export function getProjectRoot(fileUri: vscode.Uri): vscode.Uri | undefined {
+    const match = classesDirRe.exec(fileUri.path);
+    return match ? fileUri.with({ path: match[1] || '/' }) : undefined;
+}
+
+/**
+ * Finds or creates the root node that groups the test files of one 4D project.
+ */
+export function getOrCreateProjectItem(
+    controller: vscode.TestController,
+    projectRoot: vscode.Uri
+): vscode.TestItem {
+    const id = projectRoot.toString();
+    let projectItem = controller.items.get(id);
+    if (!projectItem) {
+        const name = projectRoot.path.split('/').pop() || projectRoot.path;
+        projectItem = controller.createTestItem(id, name, projectRoot);
+        projectItem.description = describeProjectLocation(projectRoot);
+        controller.items.add(projectItem);
+        testData.set(projectItem, { kind: 'project', root: projectRoot });
+    }
+    return projectItem;
+}
+
+// Shows where a project lives when that isn't obvious from its name
+function describeProjectLocation(projectRoot: vscode.Uri): string | undefined {
+    const folder = vscode.workspace.getWorkspaceFolder(projectRoot);
+    if (!folder) {
+        return projectRoot.fsPath;
+    }
+
+    const parts: string[] = [];
+    if ((vscode.workspace.workspaceFolders?.length ?? 0) > 1) {
+        parts.push(folder.name);
+    }
+    const relative = projectRoot.path.substring(folder.uri.path.length).replace(/^\//, '');
+    if (relative) {
+        parts.push(relative);
+    }
+    return parts.length > 0 ? parts.join('/') : undefined;
+}
+
+/**
+ * Removes a test file node, and its project node once the project has no files left.
+ */
+export function removeFileItem(controller: vscode.TestController, fileItem: vscode.TestItem) {
+    const projectItem = fileItem.parent;
+    if (!projectItem) {
+        controller.items.delete(fileItem.id);
+        return;
+    }
+
+    projectItem.children.delete(fileItem.id);
+    if (projectItem.children.size === 0) {
+        controller.items.delete(projectItem.id);
+    }
+}
+
+// Tags derived from past results (e.g. flaky) rather than the source, keyed by test id
+const resultTags = new Map<string, Map<string, { tag: vscode.TestTag; description: string }>>();
+
+/**
+ * Adds or removes (description undefined) a result tag. It is kept across
+ * re-discovery and shown in the test's description.
+ */
+export function setResultTag(
+    testId: string,
+    tag: vscode.TestTag,
+    description: string | undefined,
+    item?: vscode.TestItem
+) {
+    let tags = resultTags.get(testId);
+    if (description !== undefined) {
+        if (!tags) {
+            tags = new Map();
+            resultTags.set(testId, tags);
+        }
+        tags.set(tag.id, { tag, description });
+    } else {
+        tags?.delete(tag.id);
+    }
+
+    if (item) {
+        const data = testData.get(item);
+        applyResultTags(item, data instanceof TestHeading ? data.tags : []);
+    }
+}
+
+function applyResultTags(item: vscode.TestItem, sourceTags: vscode.TestTag[]) {
+    const tags = Array.from(resultTags.get(item.id)?.values() ?? []);
+    item.tags = [...sourceTags, ...tags.map(t => t.tag).filter(tag => !sourceTags.some(s => s.id === tag.id))];
+    item.description = tags.length > 0 ? tags.map(t => t.description).join(' ') : undefined;
+}
+
+// Trimmed source line of each assertion item, to follow it as lines move
+const assertionSources = new WeakMap<vscode.TestItem, string>();
+
+export function trackAssertionSource(item: vscode.TestItem, sourceText: string) {
+    assertionSources.set(item, sourceText);
+}
+
+/**
+ * Moves a test's assertion items to where their line of code is now, picking
+ * the nearest match when the same line appears more than once. Assertions whose
+ * line is gone lose their range until the next run.
+ */
+function relocateAssertions(testItem: vscode.TestItem, lines: string[]) {
+    const range = testItem.range;
+    if (!range) {
+        return;
+    }
+
+    const relocate = (assertionItem: vscode.TestItem) => {
+        // Assertions of a case are below its item
+        if (testData.get(assertionItem) instanceof ParameterizedCase) {
+            assertionItem.children.forEach(relocate);
+            return;
+        }
+
+        const sourceText = assertionSources.get(assertionItem);
+        if (sourceText === undefined) {
+            return;
+        }
+
+        const previous = assertionItem.range?.start.line ?? range.start.line;
+        let best: number | undefined;
+        for (let line = range.start.line; line <= range.end.line && line < lines.length; line++) {
+            if (lines[line].trim() === sourceText && (best === undefined || Math.abs(line - previous) < Math.abs(best - previous))) {
+                best = line;
+            }
+        }
+        assertionItem.range = best !== undefined ? new vscode.Range(best, 0, best, 0) : undefined;
+    };
+    testItem.children.forEach(relocate);
+}
+
+// Syncs the case items of a test with its `// #cases:` annotation
+function updateCaseItems(
+    controller: vscode.TestController,
+    testItem: vscode.TestItem,
+    cases: string[],
+    generation: number
+) {
+    for (const caseName of cases) {
+        const id = caseItemId(testItem, caseName);
+        let caseItem = testItem.children.get(id);
+        if (!caseItem) {
+            caseItem = controller.createTestItem(id, caseName, testItem.uri);
+            testItem.children.add(caseItem);
+        }
+        testData.set(caseItem, new ParameterizedCase(caseName, generation));
+    }
+
+    testItem.children.forEach(child => {
+        const data = testData.get(child);
+        if (data instanceof ParameterizedCase && data.generation !== undefined && data.generation !== generation) {
+            testItem.children.delete(child.id);
+        }
+    });
+}
+
+// Incremented on every parse, so items not seen in the latest parse can be dropped
+let generationCounter = 0;
+
+/**
+ * Finds the tree node of a test class file, if it has been discovered.
+ */
+export function findFileItem(
+    controller: vscode.TestController,
+    fileUri: vscode.Uri
+): vscode.TestItem | undefined {
+    const projectRoot = getProjectRoot(fileUri);
+    if (!projectRoot) {
+        return undefined;
+    }
+    return controller.items.get(projectRoot.toString())?.children.get(fileUri.fsPath);
+}
+
+/**
+ * Collects the test function items that match a predicate.
+ */
+export function findTestItems(
+    controller: vscode.TestController,
+    predicate: (item: vscode.TestItem) => boolean
+): vscode.TestItem[] {
+    const found: vscode.TestItem[] = [];
+    const walk = (item: vscode.TestItem) => {
+        if (testData.get(item) instanceof TestHeading) {
+            if (predicate(item)) {
+                found.push(item);
+            }
+            return;
+        }
+        item.children.forEach(walk);
+    };
+    controller.items.forEach(walk);
+    return found;
+}
+
+/**
+ * Finds or creates the tree node of a test class file below its project node.
+ * Returns undefined for files outside `Project/Sources/Classes`.
+ */
+export function getOrCreateFileItem(
+    controller: vscode.TestController,
+    fileUri: vscode.Uri
+): vscode.TestItem | undefined {
+    const projectRoot = getProjectRoot(fileUri);
+    if (!projectRoot) {
+        return undefined;
+    }
+
+    const projectItem = getOrCreateProjectItem(controller, projectRoot);
+    let fileItem = projectItem.children.get(fileUri.fsPath);
+    if (!fileItem) {
+        fileItem = controller.createTestItem(
+            fileUri.fsPath,
+            fileUri.path.split('/').pop()!,
+            fileUri
+        );
+        projectItem.children.add(fileItem);
+        testData.set(fileItem, { kind: 'file' });
+    }
+    return fileItem;
+}
+
+export async function updateFromDisk(
+    controller: vscode.TestController,
+    fileItem: vscode.TestItem,
+    getOrCreateTag: (name: string) => vscode.TestTag
+) {
+    try {
+        const rawContent = await vscode.workspace.fs.readFile(fileItem.uri!);
+        const content = new TextDecoder().decode(rawContent);
+
+        updateFromContents(controller, content, fileItem, getOrCreateTag);
+    } catch (err) {
+        console.error(`Error reading/parsing file ${fileItem.uri?.fsPath}:`, err);
+    }
+}
+
+/**
+ * Syncs a file's function items with its contents. Existing items are updated
+ * in place so their results and children survive; functions that no longer
+ * exist are dropped.
+ */
+export function updateFromContents(
+    controller: vscode.TestController,
+    content: string,
+    fileItem: vscode.TestItem,
+    getOrCreateTag: (name: string) => vscode.TestTag
+) {
+    const thisGeneration = ++generationCounter;
+    const className = fileItem.uri!.path.split('/').pop()!.replace(/\.4dm$/, '');
+    const model = parseClassFile(content, className);
+    const lines = content.split('\n');
+    let hasFunction = false;
+
+    for (const classFunction of model.functions) {
+        const hook = getLifecycleHook(classFunction);
+        if (hook) {
+            const id = `${fileItem.uri}/${classFunction.name}`;
+            let hookItem = fileItem.children.get(id);
+            if (!hookItem) {
+                hookItem = controller.createTestItem(id, classFunction.name, fileItem.uri);
+                fileItem.children.add(hookItem);
+            }
+            hookItem.range = classFunction.range;
+            hookItem.description = hookDescriptions[hook];
+            // Listed before the tests, in the order they run
+            hookItem.sortText = `!${lifecycleHooks.indexOf(hook)}`;
+            testData.set(hookItem, new LifecycleHook(thisGeneration, hook));
+            continue;
+        }
+
+        if (classFunction.kind !== 'function' || !classFunction.name.startsWith('test_')) {
+            continue;
+        }
+        hasFunction = true;
+
+        const name = classFunction.name;
+        const id = `${fileItem.uri}/${name}`;
+        let thead = fileItem.children.get(id);
+        if (!thead) {
+            thead = controller.createTestItem(id, name, fileItem.uri);
+            fileItem.children.add(thead);
+        }
+        thead.range = classFunction.range;
+        updateCaseItems(controller, thead, classFunction.annotations.get('cases') ?? [], thisGeneration);
+        relocateAssertions(thead, lines);
+
+        // Untagged tests count as unit tests
+        const headingTags = classFunction.annotations.get('tags') ?? ['unit'];
+        const tags = headingTags.map(getOrCreateTag);
+        testData.set(thead, new TestHeading(thisGeneration, tags));
+        applyResultTags(thead, tags);
+    }
+
+    // Drop functions that were renamed or removed since the last parse
+    fileItem.children.forEach(child => {
+        const data = testData.get(child);
+        if (!(data instanceof TestHeading || data instanceof LifecycleHook) || data.generation !== thisGeneration) {
+            fileItem.children.delete(child.id);
+        }
+    });
+
+    // Remove file if no valid functions; hooks alone don't make a test file
+    if (!hasFunction) {
+        removeFileItem(controller, fileItem);
+    }
+}
@@ -0,0 +1,114 @@
+// 4D serializes dates inside objects as midnight UTC timestamps
+const dateRe = /^(\d{4}-\d{2}-\d{2})T00:00:00(?:\.000)?Z$/;
+
+// What JSON Stringify produces for a picture
+const pictureText = '[object Picture]';
+
+const indentUnit = '  ';
+
+// Strings at least this long get a character-level difference summary
+const longStringLength = 40;
+
+/**
+ * Pretty-prints a value reported by the runner so that expected and actual can
+ * be compared line by line in the diff peek. Object keys are sorted so that
+ * attribute order doesn't show up as a difference.
+ */
+export function formatValue(value: unknown, indent = ''): string {
+    if (value === undefined) {
+        return 'undefined';
+    }
+    if (value === null) {
+        return 'null';
+    }
+
+    if (typeof value === 'string') {
+        const date = dateRe.exec(value);
+        if (date) {
+            return `!${date[1]}!`;
+        }
+        if (value === pictureText) {
+            return '<Picture>';
+        }
+        return JSON.stringify(value);
+    }
+
+    if (Array.isArray(value)) {
+        if (value.length === 0) {
+            return '[]';
+        }
+        const inner = indent + indentUnit;
+        const items = value.map(item => inner + formatValue(item, inner));
+        return `[\n${items.join(',\n')}\n${indent}]`;
+    }
+
+    if (typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        const isEntity = '__KEY' in record;
+
+        // Entity references: show the primary key, leave out the stamp
+        const keys = Object.keys(record)
+            .filter(key => !isEntity || (key !== '__KEY' && key !== '__STAMP'))
+            .sort();
+        const prefix = isEntity ? `Entity(${formatValue(record.__KEY)}) ` : '';
+
+        if (keys.length === 0) {
+            return `${prefix}{}`;
+        }
+        const inner = indent + indentUnit;
+        const entries = keys.map(key => `${inner}${JSON.stringify(key)}: ${formatValue(record[key], inner)}`);
+        return `${prefix}{\n${entries.join(',\n')}\n${indent}}`;
+    }
+
+    return String(value);
+}
+
+/**
+ * Formats a value on a single line, shortened to fit an inline message.
+ */
+export function formatValueInline(value: unknown, maxLength = 60): string {
+    const text = formatValue(value).replace(/\n\s*/g, ' ');
+    return text.length > maxLength ? text.substring(0, maxLength - 1) + '…' : text;
+}
+
+/**
+ * Describes where two long strings start to differ, or returns undefined when
+ * the values aren't both strings or are short enough to compare by eye.
+ */
+export function describeStringDifference(expected: unknown, actual: unknown): string | undefined {
+    if (typeof expected !== 'string' || typeof actual !== 'string' || expected === actual) {
+        return undefined;
+    }
+    if (Math.max(expected.length, actual.length) < longStringLength && !/\n/.test(expected + actual)) {
+        return undefined;
+    }
+
+    let index = 0;
+    while (index < expected.length && index < actual.length && expected[index] === actual[index]) {
+        index++;
+    }
+
+    const before = expected.substring(0, index);
+    const line = before.split('\n').length;
+    const column = index - before.lastIndexOf('\n');
+
+    const excerpt = (text: string) => {
+        const start = Math.max(0, index - 20);
+        const snippet = JSON.stringify(text.substring(start, index + 20));
+        return (start > 0 ? '…' : '') + snippet + (index + 20 < text.length ? '…' : '');
+    };
+
+    const lines = [
+        `Strings differ at character ${index + 1} (line ${line}, column ${column}); ` +
+            `expected length ${expected.length}, actual length ${actual.length}`,
+        `  expected: ${excerpt(expected)}`,
+        `  actual:   ${excerpt(actual)}`
+    ];
+
+    if (index === expected.length) {
+        lines.push(`Actual has ${actual.length - index} extra character(s)`);
+    } else if (index === actual.length) {
+        lines.push(`Actual is missing the last ${expected.length - index} character(s)`);
+    }
+    return lines.join('\n');
+}